@@ -8,6 +8,13 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Form analysis sends a multi-frame clip per request, which exceeds the 1mb default; keep in step with
+      // MAX_CLIP_BYTES in src/ai/frame-validation.ts
+      bodySizeLimit: '4mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -1,12 +1,84 @@
 import {genkit} from 'genkit';
+import type {GenerationUsage} from 'genkit/model';
+import type {GenkitPlugin} from 'genkit/plugin';
 import {googleAI} from '@genkit-ai/googleai';
+import {loadModelConfig, qualifiedModelName, type ModelProvider} from '@/ai/model-config';
+import {mockModel} from '@/ai/plugins/mock-model';
+import {measureUsage, withFailureUsage, type ModelUsage} from '@/ai/usage';
+import {parseNonNegativeNumber} from '@/lib/utils';
 
-export const ai = genkit({
-  promptDir: './prompts',
-  plugins: [
+export const modelConfig = loadModelConfig();
+
+const PROVIDER_PLUGINS: Record<ModelProvider, () => GenkitPlugin> = {
+  googleai: () =>
     googleAI({
       apiKey: process.env.GOOGLE_GENAI_API_KEY,
     }),
-  ],
-  model: 'googleai/gemini-2.0-flash',
+  // Offline mock; see src/ai/plugins/mock-model.ts for the fixture format
+  mock: () =>
+    mockModel({
+      models: [modelConfig.model, ...(modelConfig.fallbackModel ? [modelConfig.fallbackModel] : [])],
+      fixturesPath: process.env.MOCK_MODEL_FIXTURES || 'src/ai/fixtures/mock-model.json',
+      latencyMs: parseNonNegativeNumber(process.env.MOCK_MODEL_LATENCY_MS, 400),
+      errorRate: Math.min(parseNonNegativeNumber(process.env.MOCK_MODEL_ERROR_RATE, 0), 1),
+      seed: parseNonNegativeNumber(process.env.MOCK_MODEL_SEED, 1),
+    }),
+};
+
+const primaryModel = qualifiedModelName(modelConfig.provider, modelConfig.model);
+const fallbackModel = modelConfig.fallbackModel
+  ? qualifiedModelName(modelConfig.provider, modelConfig.fallbackModel)
+  : null;
+
+export const ai = genkit({
+  promptDir: './prompts',
+  plugins: [PROVIDER_PLUGINS[modelConfig.provider]()],
+  model: primaryModel,
 });
+
+export interface ModelCallOptions {
+  model: string;
+  config: {temperature?: number};
+}
+
+export interface MeteredResponse<T> {
+  response: T;
+  usage: ModelUsage[]; // Of every attempt: a failed one on the primary model, then the call that answered
+}
+
+/**
+ * Runs a model call against the configured primary model and, if that throws and a fallback model is
+ * configured, retries it once against the fallback. Reports the tokens, latency and estimated cost of each
+ * attempt; when every attempt fails, they are recorded against the error thrown (see withFailureUsage).
+ */
+export async function withModelFallback<T extends {usage?: GenerationUsage}>(
+  call: (options: ModelCallOptions) => Promise<T>
+): Promise<MeteredResponse<T>> {
+  // Only override the temperature when configured, so per-prompt frontmatter config still applies otherwise
+  const config = modelConfig.temperature === undefined ? {} : {temperature: modelConfig.temperature};
+  const failures: ModelUsage[] = [];
+  const metered = async (model: string) => {
+    const startedAt = performance.now();
+    try {
+      const response = await call({model, config});
+      return {response, usage: [...failures, measureUsage(model, response.usage, performance.now() - startedAt)]};
+    } catch (err) {
+      // Providers report no token counts for a call that throws
+      failures.push(measureUsage(model, undefined, performance.now() - startedAt, true));
+      throw err;
+    }
+  };
+  try {
+    return await metered(primaryModel);
+  } catch (err) {
+    if (!fallbackModel) {
+      throw withFailureUsage(err, failures);
+    }
+    console.warn(`Model ${primaryModel} failed, falling back to ${fallbackModel}:`, err);
+    try {
+      return await metered(fallbackModel);
+    } catch (fallbackErr) {
+      throw withFailureUsage(fallbackErr, failures);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @fileOverview The clip of frames every vision flow takes as input, and how it is presented to prompts.
+ *
+ * Prompts render clips with the `{{> clipFrames}}` partial (prompts/_clipFrames.prompt).
+ */
+
+import {z} from 'genkit';
+
+export const ExerciseFrameSchema = z.object({
+  dataUri: z
+    .string()
+    .describe(
+      "A still frame of the user exercising, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  timestampMs: z.number().describe('When the frame was captured, in milliseconds since the Unix epoch.'),
+});
+export type ExerciseFrame = z.infer<typeof ExerciseFrameSchema>;
+
+export const ClipFramesSchema = z
+  .array(ExerciseFrameSchema)
+  .min(1)
+  .describe('A short clip of the user exercising, as an ordered sequence of timestamped frames (oldest first).');
+
+// The prompt-side shape of a clip; spread into a prompt's input schema
+export const ClipPromptInputShape = {
+  frames: z
+    .array(
+      z.object({
+        dataUri: z.string().describe('The frame as a Base64 data URI.'),
+        offsetSeconds: z.string().describe('Seconds elapsed since the first frame of the clip.'),
+      })
+    )
+    .describe('The frames of the clip, oldest first.'),
+  clipSeconds: z.string().describe('Total duration of the clip in seconds.'),
+};
+
+/**
+ * Orders the frames and expresses their timestamps as offsets from the start of the clip.
+ */
+export function toClipPromptInput(frames: ExerciseFrame[]) {
+  const ordered = [...frames].sort((a, b) => a.timestampMs - b.timestampMs);
+  const clipStart = ordered[0].timestampMs;
+  return {
+    frames: ordered.map(frame => ({
+      dataUri: frame.dataUri,
+      offsetSeconds: ((frame.timestampMs - clipStart) / 1000).toFixed(2),
+    })),
+    clipSeconds: ((ordered[ordered.length - 1].timestampMs - clipStart) / 1000).toFixed(2),
+  };
+}
@@ -1 +1,5 @@
-import '@/ai/flows/analyze-exercise-form.ts';
\ No newline at end of file
+import '@/ai/flows/analyze-exercise-form.ts';
+import '@/ai/flows/recognize-exercise.ts';
+import '@/ai/flows/summarize-session.ts';
+import '@/ai/flows/coach-chat.ts';
+import '@/ai/flows/check-framing.ts';
@@ -0,0 +1,128 @@
+/**
+ * @fileOverview Classifies failures of AI flows into a small set of codes the UI can act on.
+ *
+ * Server actions return `AnalysisResult` instead of throwing, because errors thrown from a server
+ * action reach the browser with their message and type stripped in production builds.
+ */
+
+import {failureUsageOf, ModelUsageSchema} from '@/ai/usage';
+import {GenerationBlockedError, GenkitError, z} from 'genkit';
+
+export const ANALYSIS_ERROR_CODES = [
+  'rate_limited', // Quota or requests-per-minute exceeded (HTTP 429)
+  'timeout', // The model did not answer in time
+  'invalid_input', // The request itself was rejected; retrying it unchanged cannot succeed
+  'safety_blocked', // The provider's safety filters blocked the request or the response
+  'model_unavailable', // The model or provider is down or overloaded
+  'schema_parse', // The model answered, but not with output matching the schema
+  'unknown',
+] as const;
+export type AnalysisErrorCode = (typeof ANALYSIS_ERROR_CODES)[number];
+
+// Why an 'invalid_input' request was rejected before reaching the model
+export const INPUT_REJECTION_REASONS = [
+  'malformed_frame', // Not a base64 data URI, or the base64 does not decode
+  'unsupported_mime_type',
+  'frame_too_large',
+  'undecodable_image', // Decodes, but is not actually an image of the declared type
+  'too_many_frames',
+  'clip_too_large', // The frames together exceed the request size limit
+  'unknown_exercise',
+] as const;
+export type InputRejectionReason = (typeof INPUT_REJECTION_REASONS)[number];
+
+export const AnalysisErrorSchema = z.object({
+  code: z.enum(ANALYSIS_ERROR_CODES),
+  message: z.string(),
+  reason: z.enum(INPUT_REJECTION_REASONS).optional().describe('Set for inputs rejected by server-side validation.'),
+  retryAfterMs: z.number().optional().describe('Provider-suggested wait before retrying, when it sent one.'),
+  usage: z
+    .array(ModelUsageSchema)
+    .optional()
+    .describe('The model attempts the call made before it failed; absent when it failed before reaching the model.'),
+});
+export type AnalysisError = z.infer<typeof AnalysisErrorSchema>;
+
+export type AnalysisResult<T> = {ok: true; result: T} | {ok: false; error: AnalysisError};
+
+/**
+ * Thrown inside flows for failures that are already classified, e.g. a response with no usable output.
+ */
+export class AnalysisFailure extends Error {
+  constructor(
+    readonly code: AnalysisErrorCode,
+    message: string,
+    readonly reason?: InputRejectionReason
+  ) {
+    super(message);
+    this.name = 'AnalysisFailure';
+  }
+}
+
+const GENKIT_STATUS_CODES: Partial<Record<GenkitError['status'], AnalysisErrorCode>> = {
+  RESOURCE_EXHAUSTED: 'rate_limited',
+  DEADLINE_EXCEEDED: 'timeout',
+  INVALID_ARGUMENT: 'invalid_input',
+  FAILED_PRECONDITION: 'invalid_input',
+  UNAVAILABLE: 'model_unavailable',
+  INTERNAL: 'model_unavailable',
+};
+
+const HTTP_STATUS_CODES: Record<number, AnalysisErrorCode> = {
+  400: 'invalid_input',
+  408: 'timeout',
+  413: 'invalid_input',
+  429: 'rate_limited',
+  500: 'model_unavailable',
+  502: 'model_unavailable',
+  503: 'model_unavailable',
+  504: 'timeout',
+};
+
+/**
+ * Reads the RetryInfo detail Google APIs attach to 429s, e.g. {"retryDelay": "17s"}.
+ */
+function retryAfterMs(err: unknown): number | undefined {
+  const details = (err as {errorDetails?: Array<Record<string, unknown>>})?.errorDetails;
+  const delay = details?.find(detail => String(detail['@type'] ?? '').endsWith('RetryInfo'))?.retryDelay;
+  const seconds = typeof delay === 'string' ? parseFloat(delay) : NaN;
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
+
+export function classifyAnalysisError(err: unknown): AnalysisError {
+  const message = err instanceof Error ? err.message : String(err);
+  const retryAfter = retryAfterMs(err);
+  const usage = failureUsageOf(err);
+  const classified = (code: AnalysisErrorCode, text = message): AnalysisError => ({
+    code,
+    message: text,
+    ...(retryAfter === undefined ? {} : {retryAfterMs: retryAfter}),
+    ...(usage.length === 0 ? {} : {usage}),
+  });
+
+  if (err instanceof AnalysisFailure) {
+    return err.reason ? {...classified(err.code), reason: err.reason} : classified(err.code);
+  }
+  if (err instanceof GenerationBlockedError) {
+    return classified('safety_blocked');
+  }
+  if (err instanceof GenkitError) {
+    // Genkit reports output that fails the schema as INVALID_ARGUMENT too; inputs are validated before the flow runs
+    if (err.status === 'INVALID_ARGUMENT' && message.includes('Schema validation failed')) {
+      return classified('schema_parse', 'The model returned output that does not match the expected format.');
+    }
+    return classified(GENKIT_STATUS_CODES[err.status] ?? 'unknown');
+  }
+  if (err instanceof SyntaxError) {
+    return classified('schema_parse', 'The model returned output that is not valid JSON.');
+  }
+  // Provider SDK errors (e.g. @google/generative-ai) carry the HTTP status instead
+  const httpStatus = (err as {status?: unknown})?.status;
+  if (typeof httpStatus === 'number' && HTTP_STATUS_CODES[httpStatus]) {
+    return classified(HTTP_STATUS_CODES[httpStatus]);
+  }
+  if (/\b(blocked|safety)\b/i.test(message)) {
+    return classified('safety_blocked');
+  }
+  return classified('unknown');
+}
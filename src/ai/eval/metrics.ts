@@ -0,0 +1,143 @@
+/**
+ * @fileOverview Scoring for the form-analysis evaluation harness.
+ *
+ * "Positive" means the model flagged the form as incorrect, so a false positive is a clean rep
+ * the model complained about and a false negative is a faulty rep it let through.
+ */
+
+import type {AnalyzeExerciseFormOutput, BodyRegion} from '@/ai/flows/analyze-exercise-form';
+
+export interface EvalCaseLabel {
+  exerciseType: string;
+  formCorrect: boolean;
+  issues: BodyRegion[]; // Body regions with a real fault; empty when the form is correct
+}
+
+export interface EvalCaseResult {
+  id: string;
+  label: EvalCaseLabel;
+  output: AnalyzeExerciseFormOutput | null; // null when the flow errored
+  error?: string;
+  latencyMs: number;
+}
+
+export interface EvalMetrics {
+  cases: number;
+  errors: number;
+  accuracy: number | null;
+  falsePositiveRate: number | null;
+  falseNegativeRate: number | null;
+  issueRecall: number | null; // Share of labeled fault regions the model reported
+  issuePrecision: number | null; // Share of reported regions that were labeled faults
+  meanLatencyMs: number | null;
+}
+
+export interface EvalReport {
+  model: string;
+  dataset: string;
+  startedAt: string;
+  promptVersions: string[]; // Every prompt version that produced a result in this run
+  overall: EvalMetrics;
+  byExercise: Record<string, EvalMetrics>;
+  cases: EvalCaseResult[];
+}
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+export function computeMetrics(results: EvalCaseResult[]): EvalMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+  let expectedRegions = 0;
+  let reportedRegions = 0;
+  let matchedRegions = 0;
+  let totalLatency = 0;
+
+  const scored = results.filter(result => result.output !== null);
+  for (const {label, output, latencyMs} of scored) {
+    const flagged = !output!.formCorrect;
+    const faulty = !label.formCorrect;
+    if (flagged && faulty) truePositives++;
+    else if (flagged && !faulty) falsePositives++;
+    else if (!flagged && !faulty) trueNegatives++;
+    else falseNegatives++;
+
+    const expected = new Set(label.issues);
+    const reported = new Set(output!.issues.map(issue => issue.bodyRegion));
+    expectedRegions += expected.size;
+    reportedRegions += reported.size;
+    matchedRegions += [...reported].filter(region => expected.has(region)).length;
+    totalLatency += latencyMs;
+  }
+
+  return {
+    cases: results.length,
+    errors: results.length - scored.length,
+    accuracy: ratio(truePositives + trueNegatives, scored.length),
+    falsePositiveRate: ratio(falsePositives, falsePositives + trueNegatives),
+    falseNegativeRate: ratio(falseNegatives, falseNegatives + truePositives),
+    issueRecall: ratio(matchedRegions, expectedRegions),
+    issuePrecision: ratio(matchedRegions, reportedRegions),
+    meanLatencyMs: ratio(totalLatency, scored.length),
+  };
+}
+
+export function buildReport(model: string, dataset: string, startedAt: Date, results: EvalCaseResult[]): EvalReport {
+  const exercises = [...new Set(results.map(result => result.label.exerciseType))].sort();
+  return {
+    model,
+    dataset,
+    startedAt: startedAt.toISOString(),
+    promptVersions: [...new Set(results.flatMap(result => (result.output ? [result.output.promptVersion] : [])))].sort(),
+    overall: computeMetrics(results),
+    byExercise: Object.fromEntries(
+      exercises.map(exercise => [
+        exercise,
+        computeMetrics(results.filter(result => result.label.exerciseType === exercise)),
+      ])
+    ),
+    cases: results,
+  };
+}
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+/**
+ * Renders the overall and per-exercise metrics as a fixed-width text table.
+ */
+export function formatReportTable(report: EvalReport): string {
+  const header = ['Exercise', 'Cases', 'Errors', 'Accuracy', 'FP rate', 'FN rate', 'Issue recall', 'Issue precision', 'Latency'];
+  const row = (name: string, metrics: EvalMetrics) => [
+    name,
+    String(metrics.cases),
+    String(metrics.errors),
+    percent(metrics.accuracy),
+    percent(metrics.falsePositiveRate),
+    percent(metrics.falseNegativeRate),
+    percent(metrics.issueRecall),
+    percent(metrics.issuePrecision),
+    metrics.meanLatencyMs === null ? '-' : `${Math.round(metrics.meanLatencyMs)}ms`,
+  ];
+  const rows = [
+    header,
+    ...Object.entries(report.byExercise).map(([exercise, metrics]) => row(exercise, metrics)),
+    row('Overall', report.overall),
+  ];
+  const widths = header.map((_, column) => Math.max(...rows.map(cells => cells[column].length)));
+  const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+  const divider = widths.map(width => '-'.repeat(width)).join('  ');
+
+  return [
+    `Model: ${report.model}`,
+    `Dataset: ${report.dataset}`,
+    `Prompts: ${report.promptVersions.join(', ') || '-'}`,
+    '',
+    format(rows[0]),
+    divider,
+    ...rows.slice(1, -1).map(format),
+    divider,
+    format(rows[rows.length - 1]),
+  ].join('\n');
+}
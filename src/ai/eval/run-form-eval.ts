@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Evaluates analyzeExerciseForm against a labeled dataset of frames and clips.
+ *
+ * Usage:
+ *   npm run eval -- --dataset <dir> [--provider mock|googleai] [--model <name>] [--out <report.json>] [--limit <n>]
+ *
+ * The dataset directory holds one subdirectory per case, containing the frames of the clip
+ * (.jpg, .jpeg, .png or .webp, in filename order; a single image is a one-frame clip) and a label.json:
+ *   {"exerciseType": "Squat", "formCorrect": false, "issues": ["knees"], "frameIntervalMs": 333}
+ *
+ * Prints a per-exercise table and writes the full JSON report, including every case, to --out.
+ */
+
+import {readdir, readFile, writeFile} from 'fs/promises';
+import path from 'path';
+import {parseArgs} from 'util';
+import {z} from 'genkit';
+import type {ExerciseFrame} from '@/ai/flows/analyze-exercise-form';
+import {buildReport, formatReportTable, type EvalCaseLabel, type EvalCaseResult} from '@/ai/eval/metrics';
+import {listFrameFiles, readFrameFile} from '@/ai/frame-files';
+import {BODY_REGIONS} from '@/lib/form-issues';
+
+const DEFAULT_FRAME_INTERVAL_MS = 333;
+
+const LabelFileSchema = z.object({
+  exerciseType: z.string(),
+  formCorrect: z.boolean(),
+  issues: z.array(z.enum(BODY_REGIONS)).default([]),
+  frameIntervalMs: z.number().positive().default(DEFAULT_FRAME_INTERVAL_MS),
+});
+
+interface EvalCase {
+  id: string;
+  label: EvalCaseLabel;
+  frames: ExerciseFrame[];
+}
+
+async function loadCase(dataset: string, id: string): Promise<EvalCase> {
+  const directory = path.join(dataset, id);
+  const label = LabelFileSchema.parse(JSON.parse(await readFile(path.join(directory, 'label.json'), 'utf8')));
+  const frameFiles = await listFrameFiles(directory);
+  if (frameFiles.length === 0) {
+    throw new Error(`Case ${id} has no frames.`);
+  }
+
+  const frames = await Promise.all(
+    frameFiles.map(async (file, index) => ({
+      dataUri: await readFrameFile(path.join(directory, file)),
+      timestampMs: index * label.frameIntervalMs,
+    }))
+  );
+
+  return {
+    id,
+    label: {
+      exerciseType: label.exerciseType,
+      formCorrect: label.formCorrect,
+      issues: label.issues,
+    },
+    frames,
+  };
+}
+
+async function main() {
+  const {values} = parseArgs({
+    options: {
+      dataset: {type: 'string'},
+      provider: {type: 'string'},
+      model: {type: 'string'},
+      out: {type: 'string', default: 'eval-report.json'},
+      limit: {type: 'string'},
+    },
+  });
+  if (!values.dataset) {
+    throw new Error('Missing --dataset <dir>.');
+  }
+
+  // The Genkit instance reads its model config from the environment when first imported.
+  if (values.provider) process.env.GENKIT_PROVIDER = values.provider;
+  if (values.model) process.env.GENKIT_MODEL = values.model;
+  const {modelConfig} = await import('@/ai/ai-instance');
+  const {analyzeExerciseForm} = await import('@/ai/flows/analyze-exercise-form');
+
+  const caseIds = (await readdir(values.dataset, {withFileTypes: true}))
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort()
+    .slice(0, values.limit ? Number(values.limit) : undefined);
+
+  const startedAt = new Date();
+  const results: EvalCaseResult[] = [];
+  for (const id of caseIds) {
+    const evalCase = await loadCase(values.dataset, id);
+    const started = Date.now();
+    const outcome = await analyzeExerciseForm({frames: evalCase.frames, exerciseType: evalCase.label.exerciseType});
+    const latencyMs = Date.now() - started;
+    if (outcome.ok) {
+      results.push({id, label: evalCase.label, output: outcome.result, latencyMs});
+    } else {
+      const {code, message} = outcome.error;
+      results.push({id, label: evalCase.label, output: null, error: `${code}: ${message}`, latencyMs});
+    }
+    console.error(`[${results.length}/${caseIds.length}] ${id}${results[results.length - 1].error ? ' (error)' : ''}`);
+  }
+
+  const report = buildReport(`${modelConfig.provider}/${modelConfig.model}`, values.dataset, startedAt, results);
+  await writeFile(values.out!, JSON.stringify(report, null, 2));
+  console.log(formatReportTable(report));
+  console.log(`\nFull report written to ${values.out}`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,408 @@
+// This is an experimental implementation of real-time video analysis; it may not work as expected.
+/**
+ * @fileOverview Analyzes exercise form in real-time and provides corrective guidance.
+ *
+ * Not a server action module, so the flow itself can be exported for the streaming route handler
+ * (src/app/api/analyze-exercise-form/route.ts); the server action lives in ./analyze-exercise-form.ts.
+ *
+ * - runFormAnalysis - Validates the input and analyzes the clip, optionally streaming drafts, returning a result or a classified error.
+ * - streamAnalyzeExerciseFormFlow - The streaming flow served to the browser.
+ * - AnalyzeExerciseFormInput - The input type for the analysis.
+ * - ExerciseFrame - A single timestamped frame of the clip being analyzed.
+ * - FormIssue - A single form problem, with the affected body region, severity, cue and confidence.
+ * - CheckpointResult - The verdict on one checkpoint of the exercise's form rubric.
+ * - SafetyAlert - A high-risk situation that should interrupt the session, reported apart from ordinary issues.
+ * - RangeOfMotionReading - An estimated joint angle, compared with the range the exercise should reach.
+ * - FormFeedbackDraft - The partial feedback streamed while the model is still generating.
+ * - LanguageCheck - Whether the feedback came back in the requested language.
+ * - AnalyzeExerciseFormOutput - The final verdict.
+ */
+
+import {ai, withModelFallback} from '@/ai/ai-instance';
+import {ClipFramesSchema, ClipPromptInputShape, toClipPromptInput, type ExerciseFrame} from '@/ai/clip';
+import {AnalysisErrorSchema, AnalysisFailure, classifyAnalysisError, type AnalysisResult} from '@/ai/errors';
+import {normalizeFrames} from '@/ai/frame-validation';
+import {ProfilePromptInputShape, toProfilePromptInput} from '@/ai/profile';
+import {promptVariantKey, resolveVersionedPrompt} from '@/ai/prompt-registry';
+import {isWithinRange, rangeOfMotionFor} from '@/ai/range-of-motion';
+import {loadReferences, ReferencePromptInputShape, toReferencePromptInput} from '@/ai/references';
+import {rubricFor} from '@/ai/rubrics';
+import {ModelUsageSchema, withFailureUsage} from '@/ai/usage';
+import {isExerciseType} from '@/lib/exercises';
+import {BODY_REGIONS} from '@/lib/form-issues';
+import {detectLanguage} from '@/lib/language-detection';
+import {DEFAULT_LOCALE, LOCALE_LANGUAGE_NAMES, SUPPORTED_LOCALES, type Locale} from '@/lib/locales';
+import {BODY_SIDES} from '@/lib/symmetry';
+import {UserProfileSchema} from '@/lib/user-profile';
+import {z} from 'genkit';
+
+export type {ExerciseFrame} from '@/ai/clip';
+
+const AnalyzeExerciseFormInputSchema = z.object({
+  frames: ClipFramesSchema,
+  exerciseType: z.string().describe('The type of exercise being performed.'),
+  locale: z.enum(SUPPORTED_LOCALES).optional().describe('The language to write the feedback in. Defaults to English.'),
+  profile: UserProfileSchema.optional().describe("The user's experience, injuries and goals, so advice can be tailored."),
+});
+export type AnalyzeExerciseFormInput = z.infer<typeof AnalyzeExerciseFormInputSchema>;
+
+const BodyRegionSchema = z.enum(BODY_REGIONS);
+export type BodyRegion = z.infer<typeof BodyRegionSchema>;
+
+const BodySideSchema = z
+  .enum(BODY_SIDES)
+  .describe("The user's own left or right side, or 'both' for both sides equally and the midline (back, neck, core).");
+
+const IssueSeveritySchema = z.enum(['low', 'medium', 'high']);
+export type IssueSeverity = z.infer<typeof IssueSeveritySchema>;
+
+const FormIssueSchema = z.object({
+  bodyRegion: BodyRegionSchema.describe('The body region where the problem is visible.'),
+  side: BodySideSchema,
+  severity: IssueSeveritySchema.describe(
+    "How much the issue matters: 'low' for minor inefficiencies, 'medium' for faults that limit the exercise, 'high' for faults that risk injury."
+  ),
+  cue: z.string().describe('A short coaching cue of a few words the user can act on mid-set, e.g. "Push your knees out".'),
+  explanation: z.string().describe('One or two sentences explaining what is wrong and why the cue fixes it.'),
+  confidence: z.number().describe('How confident you are that the issue is really present, between 0 and 1.'),
+});
+export type FormIssue = z.infer<typeof FormIssueSchema>;
+
+const CheckpointStatusSchema = z.enum(['pass', 'fail', 'unknown']);
+export type CheckpointStatus = z.infer<typeof CheckpointStatusSchema>;
+
+const CheckpointVerdictSchema = z.object({
+  id: z.string().describe('The id of the rubric checkpoint, exactly as given in the checklist.'),
+  status: CheckpointStatusSchema.describe(
+    "'pass' if the clip clearly shows the checkpoint is met, 'fail' if it clearly is not, 'unknown' if the frames do not show enough to tell."
+  ),
+  note: z.string().optional().describe('A few words on what was seen, especially for a fail or unknown.'),
+});
+
+const CheckpointResultSchema = CheckpointVerdictSchema.extend({
+  label: z.string().describe('The checklist wording of the checkpoint, in the language the feedback was requested in.'),
+});
+export type CheckpointResult = z.infer<typeof CheckpointResultSchema>;
+
+const SafetyHazardSchema = z.enum([
+  'rounded-spine-under-load',
+  'knee-collapse',
+  'loss-of-balance',
+  'joint-hyperextension',
+  'other',
+]);
+export type SafetyHazard = z.infer<typeof SafetyHazardSchema>;
+
+const SafetyAlertSchema = z.object({
+  hazard: SafetyHazardSchema.describe('The kind of danger, as listed in the safety instructions.'),
+  description: z.string().describe('One sentence on what was seen that makes it dangerous.'),
+  instruction: z.string().describe('What the user should do right now, e.g. "Stop the set and put the weight down".'),
+  confidence: z.number().describe('How confident you are that the danger is really present, between 0 and 1.'),
+});
+export type SafetyAlert = z.infer<typeof SafetyAlertSchema>;
+
+// Alerts interrupt the user, so weak guesses are dropped; the underlying fault still shows as an issue
+const SAFETY_ALERT_MIN_CONFIDENCE = 0.5;
+
+const RangeOfMotionEstimateSchema = z.object({
+  id: z.string().describe('The id of the measurement, exactly as given in the list.'),
+  side: BodySideSchema,
+  degrees: z.number().describe('The estimated inside angle at the joint, from 0 to 180 degrees.'),
+  confidence: z.number().describe('How confident you are in the estimate, between 0 and 1.'),
+  frameSeconds: z.number().describe('The offset of the frame the angle was estimated on, as labeled in the clip, e.g. 1.25.'),
+});
+
+const RangeOfMotionReadingSchema = RangeOfMotionEstimateSchema.omit({frameSeconds: true}).extend({
+  timestampMs: z.number().describe('When the frame the angle was estimated on was captured, in milliseconds since the Unix epoch.'),
+  label: z.string().describe('The wording of the measurement shown to the user, in the language the feedback was requested in.'),
+  minDegrees: z.number().optional().describe('The smallest angle of a full-range rep, if there is a lower bound.'),
+  maxDegrees: z.number().optional().describe('The largest angle of a full-range rep, if there is an upper bound.'),
+  withinRange: z.boolean().describe('Whether the angle reached the expected range; false for a partial rep.'),
+});
+export type RangeOfMotionReading = z.infer<typeof RangeOfMotionReadingSchema>;
+
+// Guesses at joints that are barely visible would call out partial reps that never happened
+const RANGE_OF_MOTION_MIN_CONFIDENCE = 0.5;
+
+// What the model itself returns; the flow adds bookkeeping fields on top.
+const AnalyzeExerciseFormPromptOutputSchema = z.object({
+  formCorrect: z.boolean().describe('Whether the exercise form is correct.'),
+  feedback: z.string().describe('A one or two sentence overall summary of the form.'),
+  issues: z
+    .array(FormIssueSchema)
+    .describe('Every distinct form issue observed in the clip. Empty when the form is correct.'),
+  checkpoints: z
+    .array(CheckpointVerdictSchema)
+    .describe('A verdict for every checkpoint of the rubric, in checklist order. Empty when no rubric is given.'),
+  safetyAlerts: z
+    .array(SafetyAlertSchema)
+    .describe('Situations likely to injure the user right now. Empty unless such a danger is clearly visible.'),
+  rangeOfMotion: z
+    .array(RangeOfMotionEstimateSchema)
+    .describe('The estimated joint angles from the measurement list, for each rep in the clip. Empty when no list is given or nothing can be measured.'),
+  workingSide: z
+    .enum(BODY_SIDES)
+    .describe("For one-sided reps (the leading leg of a lunge, a single-arm curl), the side that did the work; otherwise 'both'."),
+});
+
+const LanguageCheckSchema = z.enum(['match', 'mismatch', 'inconclusive']);
+export type LanguageCheck = z.infer<typeof LanguageCheckSchema>;
+
+const AnalyzeExerciseFormOutputSchema = AnalyzeExerciseFormPromptOutputSchema.extend({
+  checkpoints: z
+    .array(CheckpointResultSchema)
+    .describe("The exercise's rubric in checklist order, with the model's verdict on each checkpoint."),
+  rangeOfMotion: z
+    .array(RangeOfMotionReadingSchema)
+    .describe("The exercise's range-of-motion measurements that could be estimated, in list order and then in clip order."),
+  locale: z.enum(SUPPORTED_LOCALES).describe('The language the feedback was requested in.'),
+  languageCheck: LanguageCheckSchema.describe(
+    "Whether the feedback text was detected as the requested language; 'inconclusive' when it is too short to tell."
+  ),
+  promptVersion: z.string().describe('The prompt file and version that produced this result, e.g. "analyzeExerciseForm.squat@1.0.0".'),
+  referenceIds: z
+    .array(z.string())
+    .describe('The reference examples shown to the model alongside the clip, e.g. "squat/02-knees-caving".'),
+  usage: z
+    .array(ModelUsageSchema)
+    .describe('Tokens, latency and estimated cost of each model attempt, the call that answered last.'),
+});
+export type AnalyzeExerciseFormOutput = z.infer<typeof AnalyzeExerciseFormOutputSchema>;
+
+// Streamed while the model is generating: the summary so far and the cues of the issues it has named.
+// Each chunk replaces the previous one rather than adding to it.
+const FormFeedbackDraftSchema = z.object({
+  feedback: z.string().optional(),
+  cues: z.array(z.string()),
+});
+export type FormFeedbackDraft = z.infer<typeof FormFeedbackDraftSchema>;
+
+const AnalyzeExerciseFormPromptInputSchema = z.object({
+  ...ClipPromptInputShape,
+  ...ProfilePromptInputShape,
+  ...ReferencePromptInputShape,
+  exerciseType: z.string().describe('The type of exercise being performed.'),
+  rubric: z
+    .array(
+      z.object({
+        id: z.string(),
+        label: z.string(),
+        description: z.string(),
+      })
+    )
+    .describe('The checklist the clip is judged against. Empty for exercises without a rubric.'),
+  rangeOfMotion: z
+    .array(
+      z.object({
+        id: z.string(),
+        label: z.string(),
+        description: z.string(),
+      })
+    )
+    .describe('The joint angles to estimate. Empty for exercises without range-of-motion measurements.'),
+  language: z.string().describe('The language to write the feedback in, e.g. "Spanish".'),
+});
+
+// Referenced by name from the frontmatter of prompts/analyzeExerciseForm*.prompt
+ai.defineSchema('AnalyzeExerciseFormPromptInput', AnalyzeExerciseFormPromptInputSchema);
+ai.defineSchema('AnalyzeExerciseFormPromptOutput', AnalyzeExerciseFormPromptOutputSchema);
+
+/**
+ * Checks that the free text of the model's answer is in the requested language. Field values the prompt
+ * keeps in English (body regions, severities, statuses) are left out.
+ */
+function checkLanguage(output: z.infer<typeof AnalyzeExerciseFormPromptOutputSchema>, locale: Locale): LanguageCheck {
+  const text = [
+    output.feedback,
+    ...output.issues.flatMap(issue => [issue.cue, issue.explanation]),
+    ...output.checkpoints.map(checkpoint => checkpoint.note ?? ''),
+    ...output.safetyAlerts.flatMap(alert => [alert.description, alert.instruction]),
+  ].join('\n');
+  const detected = detectLanguage(text);
+  if (detected === null) {
+    return 'inconclusive';
+  }
+  return detected === locale ? 'match' : 'mismatch';
+}
+
+/**
+ * The capture time of the frame nearest to an offset into the clip, as the prompt labels the frames.
+ */
+function frameTimestampAt(frames: ExerciseFrame[], offsetSeconds: number): number {
+  const clipStart = Math.min(...frames.map(frame => frame.timestampMs));
+  const target = clipStart + offsetSeconds * 1000;
+  return frames.reduce((nearest, frame) =>
+    Math.abs(frame.timestampMs - target) < Math.abs(nearest.timestampMs - target) ? frame : nearest
+  ).timestampMs;
+}
+
+const analyzeExerciseFormFlow = ai.defineFlow<
+  typeof AnalyzeExerciseFormInputSchema,
+  typeof AnalyzeExerciseFormOutputSchema,
+  typeof FormFeedbackDraftSchema
+>({
+  name: 'analyzeExerciseFormFlow',
+  inputSchema: AnalyzeExerciseFormInputSchema,
+  outputSchema: AnalyzeExerciseFormOutputSchema,
+  streamSchema: FormFeedbackDraftSchema,
+}, async (input, {sendChunk}) => {
+  const references = await loadReferences(input.exerciseType);
+  const locale = input.locale ?? DEFAULT_LOCALE;
+  const promptInput = {
+    ...toClipPromptInput(input.frames),
+    ...toProfilePromptInput(input.profile),
+    ...toReferencePromptInput(references),
+    exerciseType: input.exerciseType,
+    // The prompt is written in English, so it gets the English labels; the model reports back by id
+    rubric: rubricFor(input.exerciseType).map(({id, label, description}) => ({id, label: label[DEFAULT_LOCALE], description})),
+    rangeOfMotion: rangeOfMotionFor(input.exerciseType).map(({id, label, description}) => ({id, label: label[DEFAULT_LOCALE], description})),
+    language: LOCALE_LANGUAGE_NAMES[locale],
+  };
+  // Per-exercise variant (e.g. analyzeExerciseForm.squat.prompt), or the generic prompt for anything else
+  const {prompt, promptVersion} = await resolveVersionedPrompt<
+    typeof AnalyzeExerciseFormPromptInputSchema,
+    typeof AnalyzeExerciseFormPromptOutputSchema
+  >('analyzeExerciseForm', promptVariantKey(input.exerciseType));
+  const {response: {output}, usage} = await withModelFallback(async options => {
+    const {stream, response} = prompt.stream(promptInput, options);
+    let lastDraft = '';
+    for await (const chunk of stream) {
+      // chunk.output is the partial JSON parsed from everything generated so far
+      const partial = chunk.output as Partial<z.infer<typeof AnalyzeExerciseFormPromptOutputSchema>> | null;
+      if (!partial) {
+        continue;
+      }
+      const draft: FormFeedbackDraft = {
+        feedback: typeof partial.feedback === 'string' ? partial.feedback : undefined,
+        cues: (Array.isArray(partial.issues) ? partial.issues : []).flatMap(issue =>
+          typeof issue?.cue === 'string' && issue.cue ? [issue.cue] : []
+        ),
+      };
+      // Later fields (explanations, checkpoints) don't change the draft; don't resend it for them
+      if (JSON.stringify(draft) !== lastDraft) {
+        lastDraft = JSON.stringify(draft);
+        sendChunk(draft);
+      }
+    }
+    return response;
+  });
+  if (!output) {
+    throw withFailureUsage(new AnalysisFailure('schema_parse', 'The model returned no structured output.'), usage);
+  }
+  // Report the rubric as written: ids the model invented are dropped and checkpoints it skipped are 'unknown'.
+  const verdicts = new Map(output.checkpoints.map(verdict => [verdict.id, verdict]));
+  const checkpoints = rubricFor(input.exerciseType).map(({id, label}) => ({
+    id,
+    label: label[locale],
+    status: verdicts.get(id)?.status ?? ('unknown' as const),
+    note: verdicts.get(id)?.note,
+  }));
+  // Readings for measurements the exercise has, in list order and at most one per side and frame, compared with
+  // the range each should reach. Each is timed by the frame it was read on, so it can be matched to its rep.
+  const rangeOfMotion = rangeOfMotionFor(input.exerciseType).flatMap(measure => {
+    const estimates = output.rangeOfMotion
+      .map(estimate => ({...estimate, timestampMs: frameTimestampAt(input.frames, estimate.frameSeconds)}))
+      .filter(
+        (estimate, index, all) =>
+          estimate.id === measure.id &&
+          all.findIndex(
+            other => other.id === estimate.id && other.side === estimate.side && other.timestampMs === estimate.timestampMs
+          ) === index
+      )
+      .sort((a, b) => a.timestampMs - b.timestampMs);
+    return estimates.flatMap(estimate => {
+      const confidence = Math.min(1, Math.max(0, estimate.confidence));
+      if (confidence < RANGE_OF_MOTION_MIN_CONFIDENCE) {
+        return [];
+      }
+      const degrees = Math.round(Math.min(180, Math.max(0, estimate.degrees)));
+      return [{
+        id: measure.id,
+        label: measure.label[locale],
+        side: estimate.side,
+        degrees,
+        confidence,
+        timestampMs: estimate.timestampMs,
+        minDegrees: measure.minDegrees,
+        maxDegrees: measure.maxDegrees,
+        withinRange: isWithinRange(measure, degrees),
+      }];
+    });
+  });
+  const safetyAlerts = output.safetyAlerts
+    .map(alert => ({...alert, confidence: Math.min(1, Math.max(0, alert.confidence))}))
+    .filter(alert => alert.confidence >= SAFETY_ALERT_MIN_CONFIDENCE);
+  const languageCheck = checkLanguage(output, locale);
+  if (languageCheck === 'mismatch') {
+    console.warn(`Feedback for ${input.exerciseType} was requested in ${locale} but does not appear to be.`);
+  }
+  return {
+    ...output,
+    // A failed checkpoint or a safety alert means the form is not correct, whatever the model's overall verdict.
+    formCorrect:
+      output.formCorrect && !checkpoints.some(checkpoint => checkpoint.status === 'fail') && safetyAlerts.length === 0,
+    checkpoints,
+    rangeOfMotion,
+    safetyAlerts,
+    locale,
+    languageCheck,
+    promptVersion,
+    referenceIds: references.map(reference => reference.id),
+    usage,
+    issues: output.issues.map(issue => ({
+      ...issue,
+      confidence: Math.min(1, Math.max(0, issue.confidence)),
+    })),
+  };
+});
+
+/**
+ * Validates and normalizes the input, then runs the analysis. Never throws: failures come back classified.
+ * Pass `onDraft` to receive partial feedback while the model is still generating.
+ */
+export async function runFormAnalysis(
+  input: unknown,
+  onDraft?: (draft: FormFeedbackDraft) => void
+): Promise<AnalysisResult<AnalyzeExerciseFormOutput>> {
+  const parsed = AnalyzeExerciseFormInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {ok: false, error: {code: 'invalid_input', message: `${issue.path.join('.') || 'input'}: ${issue.message}`}};
+  }
+  if (!isExerciseType(parsed.data.exerciseType)) {
+    return {
+      ok: false,
+      error: {code: 'invalid_input', message: `Unknown exercise "${parsed.data.exerciseType}".`, reason: 'unknown_exercise'},
+    };
+  }
+  try {
+    const frames = await normalizeFrames(parsed.data.frames);
+    const {stream, output} = analyzeExerciseFormFlow.stream({...parsed.data, frames});
+    for await (const draft of stream) {
+      onDraft?.(draft);
+    }
+    return {ok: true, result: await output};
+  } catch (err) {
+    const error = classifyAnalysisError(err);
+    console.error(`Form analysis failed (${error.code}):`, err);
+    return {ok: false, error};
+  }
+}
+
+const AnalyzeExerciseFormResultSchema = z.discriminatedUnion('ok', [
+  z.object({ok: z.literal(true), result: AnalyzeExerciseFormOutputSchema}),
+  z.object({ok: z.literal(false), error: AnalysisErrorSchema}),
+]);
+
+// Takes any input: runFormAnalysis validates it, so a malformed request comes back as an 'invalid_input' result
+// rather than a Genkit schema error the client can't classify
+export const streamAnalyzeExerciseFormFlow = ai.defineFlow<
+  z.ZodUnknown,
+  typeof AnalyzeExerciseFormResultSchema,
+  typeof FormFeedbackDraftSchema
+>({
+  name: 'streamAnalyzeExerciseFormFlow',
+  inputSchema: z.unknown(),
+  outputSchema: AnalyzeExerciseFormResultSchema,
+  streamSchema: FormFeedbackDraftSchema,
+}, (input, {sendChunk}) => runFormAnalysis(input, sendChunk));
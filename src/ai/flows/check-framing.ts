@@ -0,0 +1,124 @@
+'use server';
+/**
+ * @fileOverview A quick look at a single frame to check the user is in shot and visible enough to analyze.
+ *
+ * Runs before form analysis so badly framed clips get framing tips instead of invented feedback. Lighting is
+ * also checked in the browser (src/lib/frame-quality.ts); this catches what brightness statistics cannot.
+ *
+ * - checkFraming - Lists the framing problems of a frame, or returns a classified error.
+ * - CheckFramingInput - The input type for the checkFraming function.
+ * - CheckFramingOutput - The return type for the checkFraming function.
+ */
+
+import {ai, withModelFallback} from '@/ai/ai-instance';
+import {ExerciseFrameSchema} from '@/ai/clip';
+import {CAMERA_VIEWS} from '@/lib/camera-setup';
+import {AnalysisFailure, classifyAnalysisError, type AnalysisResult} from '@/ai/errors';
+import {normalizeFrames} from '@/ai/frame-validation';
+import {resolveVersionedPrompt} from '@/ai/prompt-registry';
+import {ModelUsageSchema, withFailureUsage} from '@/ai/usage';
+import {isExerciseType, type ExerciseType} from '@/lib/exercises';
+import {FRAMING_PROBLEMS, type FramingProblem} from '@/lib/frame-quality';
+import {z} from 'genkit';
+
+// The body regions that must be in view to judge each exercise
+const REQUIRED_BODY_REGIONS: Record<ExerciseType, string[]> = {
+  Squat: ['shoulders', 'hips', 'knees', 'ankles', 'feet'],
+  'Push-up': ['head', 'shoulders', 'elbows', 'hips', 'ankles'],
+  Lunge: ['shoulders', 'hips', 'knees', 'ankles', 'feet'],
+  Plank: ['head', 'shoulders', 'elbows', 'hips', 'ankles'],
+  'Bicep Curl': ['shoulders', 'elbows', 'wrists', 'hips'],
+};
+const DEFAULT_REQUIRED_BODY_REGIONS = ['head', 'shoulders', 'hips', 'knees', 'ankles'];
+
+const CheckFramingInputSchema = z.object({
+  frame: ExerciseFrameSchema,
+  exerciseType: z.string().describe('The exercise about to be analyzed; empty if it is not known yet.'),
+});
+export type CheckFramingInput = z.infer<typeof CheckFramingInputSchema>;
+
+const CheckFramingPromptOutputSchema = z.object({
+  personVisible: z.boolean().describe('Whether a person is in the picture at all.'),
+  missingBodyRegions: z
+    .array(z.string())
+    .describe('Body regions from the list that are cut off, hidden or too unclear to judge. Empty when all are visible.'),
+  distance: z
+    .enum(['good', 'too-far', 'too-close'])
+    .describe("'too-far' when the person fills less than about a third of the picture height, 'too-close' when parts are cut off because they are too near."),
+  lighting: z.enum(['good', 'too-dark', 'too-bright', 'backlit']).describe('Whether the person is lit well enough to make out their joints.'),
+  view: z
+    .enum(CAMERA_VIEWS)
+    .describe("Which way the person's body faces relative to the camera: 'side' when the camera sees them side-on."),
+});
+
+const CheckFramingOutputSchema = z.object({
+  problems: z.array(z.enum(FRAMING_PROBLEMS)).describe('Everything wrong with the framing. Empty when the frame is fine to analyze.'),
+  missingBodyRegions: z.array(z.string()).describe('Required body regions that are not visible.'),
+  view: z.enum(CAMERA_VIEWS).describe('Which way the person faces the camera, for the camera-setup check.'),
+  promptVersion: z.string(),
+  usage: z.array(ModelUsageSchema),
+});
+export type CheckFramingOutput = z.infer<typeof CheckFramingOutputSchema>;
+
+export async function checkFraming(input: CheckFramingInput): Promise<AnalysisResult<CheckFramingOutput>> {
+  const parsed = CheckFramingInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {ok: false, error: {code: 'invalid_input', message: `${issue.path.join('.') || 'input'}: ${issue.message}`}};
+  }
+  try {
+    const [frame] = await normalizeFrames([parsed.data.frame]);
+    return {ok: true, result: await checkFramingFlow({...parsed.data, frame})};
+  } catch (err) {
+    const error = classifyAnalysisError(err);
+    console.error(`checkFraming failed (${error.code}):`, err);
+    return {ok: false, error};
+  }
+}
+
+const CheckFramingPromptInputSchema = z.object({
+  frameDataUri: z.string(),
+  exerciseType: z.string(),
+  requiredBodyRegions: z.array(z.string()),
+});
+
+// Referenced by name from the frontmatter of prompts/checkFraming.prompt
+ai.defineSchema('CheckFramingPromptInput', CheckFramingPromptInputSchema);
+ai.defineSchema('CheckFramingPromptOutput', CheckFramingPromptOutputSchema);
+
+const checkFramingFlow = ai.defineFlow<typeof CheckFramingInputSchema, typeof CheckFramingOutputSchema>({
+  name: 'checkFramingFlow',
+  inputSchema: CheckFramingInputSchema,
+  outputSchema: CheckFramingOutputSchema,
+}, async input => {
+  const requiredBodyRegions = isExerciseType(input.exerciseType)
+    ? REQUIRED_BODY_REGIONS[input.exerciseType]
+    : DEFAULT_REQUIRED_BODY_REGIONS;
+  const {prompt, promptVersion} = await resolveVersionedPrompt<
+    typeof CheckFramingPromptInputSchema,
+    typeof CheckFramingPromptOutputSchema
+  >('checkFraming');
+  const {response: {output}, usage} = await withModelFallback(options =>
+    prompt({frameDataUri: input.frame.dataUri, exerciseType: input.exerciseType, requiredBodyRegions}, options)
+  );
+  if (!output) {
+    throw withFailureUsage(new AnalysisFailure('schema_parse', 'The model returned no structured output.'), usage);
+  }
+
+  if (!output.personVisible) {
+    return {problems: ['no-person'], missingBodyRegions: [], view: 'unclear', promptVersion, usage};
+  }
+  // Regions the model named that were not asked about don't block analysis
+  const missingBodyRegions = output.missingBodyRegions.filter(region => requiredBodyRegions.includes(region));
+  const problems: FramingProblem[] = [];
+  if (output.lighting !== 'good') {
+    problems.push(output.lighting);
+  }
+  if (output.distance !== 'good') {
+    problems.push(output.distance);
+  }
+  if (missingBodyRegions.length > 0) {
+    problems.push('joints-hidden');
+  }
+  return {problems, missingBodyRegions, view: output.view, promptVersion, usage};
+});
@@ -0,0 +1,125 @@
+'use server';
+/**
+ * @fileOverview Answers the user's follow-up questions about their form feedback, in the coach persona.
+ *
+ * - askCoach - Answers a question given the current exercise, the latest analysis, the user's profile and the conversation so far.
+ * - CoachChatMessage - One turn of the conversation.
+ * - AskCoachInput - The input type for the askCoach function.
+ * - AskCoachOutput - The return type for the askCoach function.
+ */
+
+import {ai, withModelFallback} from '@/ai/ai-instance';
+import {AnalysisFailure, classifyAnalysisError, type AnalysisResult} from '@/ai/errors';
+import {ProfilePromptInputShape, toProfilePromptInput} from '@/ai/profile';
+import {resolveVersionedPrompt} from '@/ai/prompt-registry';
+import {ModelUsageSchema, withFailureUsage} from '@/ai/usage';
+import {DEFAULT_LOCALE, LOCALE_LANGUAGE_NAMES, SUPPORTED_LOCALES} from '@/lib/locales';
+import {UserProfileSchema} from '@/lib/user-profile';
+import {z} from 'genkit';
+
+const MAX_HISTORY_MESSAGES = 20; // Older turns are dropped rather than rejected
+const MAX_RECENT_FEEDBACK = 10;
+const MAX_QUESTION_LENGTH = 1000;
+
+const CoachChatMessageSchema = z.object({
+  role: z.enum(['user', 'coach']),
+  text: z.string(),
+});
+export type CoachChatMessage = z.infer<typeof CoachChatMessageSchema>;
+
+// Extra fields of a full analysis result (confidences, promptVersion) are accepted and stripped.
+const LatestFeedbackSchema = z.object({
+  formCorrect: z.boolean(),
+  feedback: z.string(),
+  issues: z.array(
+    z.object({
+      bodyRegion: z.string(),
+      severity: z.string(),
+      cue: z.string(),
+      explanation: z.string(),
+    })
+  ),
+  checkpoints: z.array(
+    z.object({
+      label: z.string(),
+      status: z.enum(['pass', 'fail', 'unknown']),
+      note: z.string().optional(),
+    })
+  ),
+});
+
+const AskCoachInputSchema = z.object({
+  question: z.string().trim().min(1).max(MAX_QUESTION_LENGTH),
+  exerciseType: z.string().describe('The exercise the user is doing; empty if none is selected yet.'),
+  latestFeedback: LatestFeedbackSchema.nullable().describe('The most recent form analysis, if there is one.'),
+  recentFeedback: z.array(z.string()).describe('One-line summaries of the analyses before it, oldest first.'),
+  history: z.array(CoachChatMessageSchema).describe('The conversation so far, oldest first.'),
+  profile: UserProfileSchema.optional().describe("The user's experience, injuries and goals, so advice can be tailored."),
+  locale: z.enum(SUPPORTED_LOCALES).optional().describe('The language to answer in. Defaults to English.'),
+});
+export type AskCoachInput = z.infer<typeof AskCoachInputSchema>;
+
+const AskCoachOutputSchema = z.object({
+  answer: z.string(),
+  promptVersion: z.string(),
+  usage: z.array(ModelUsageSchema),
+});
+export type AskCoachOutput = z.infer<typeof AskCoachOutputSchema>;
+
+export async function askCoach(input: AskCoachInput): Promise<AnalysisResult<AskCoachOutput>> {
+  const parsed = AskCoachInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {ok: false, error: {code: 'invalid_input', message: `${issue.path.join('.') || 'input'}: ${issue.message}`}};
+  }
+  try {
+    return {ok: true, result: await coachChatFlow(parsed.data)};
+  } catch (err) {
+    const error = classifyAnalysisError(err);
+    console.error(`askCoach failed (${error.code}):`, err);
+    return {ok: false, error};
+  }
+}
+
+const CoachChatPromptInputSchema = z.object({
+  ...ProfilePromptInputShape,
+  question: z.string(),
+  exerciseType: z.string(),
+  latestFeedback: LatestFeedbackSchema.nullable(),
+  recentFeedback: z.array(z.string()),
+  language: z.string().describe('The language to answer in, e.g. "Spanish".'),
+});
+
+// Referenced by name from the frontmatter of prompts/coachChat.prompt
+ai.defineSchema('CoachChatPromptInput', CoachChatPromptInputSchema);
+
+const coachChatFlow = ai.defineFlow<typeof AskCoachInputSchema, typeof AskCoachOutputSchema>({
+  name: 'coachChatFlow',
+  inputSchema: AskCoachInputSchema,
+  outputSchema: AskCoachOutputSchema,
+}, async ({history, profile, locale, ...input}) => {
+  const {prompt, promptVersion} = await resolveVersionedPrompt<
+    typeof CoachChatPromptInputSchema,
+    z.ZodTypeAny
+  >('coachChat');
+  // Earlier turns go in as real chat messages, where the prompt's {{history}} places them
+  const messages = history.slice(-MAX_HISTORY_MESSAGES).map(message => ({
+    role: message.role === 'coach' ? ('model' as const) : ('user' as const),
+    content: [{text: message.text}],
+  }));
+  const {response: {text}, usage} = await withModelFallback(options =>
+    prompt(
+      {
+        ...input,
+        ...toProfilePromptInput(profile),
+        recentFeedback: input.recentFeedback.slice(-MAX_RECENT_FEEDBACK),
+        language: LOCALE_LANGUAGE_NAMES[locale ?? DEFAULT_LOCALE],
+      },
+      {...options, messages}
+    )
+  );
+  if (!text.trim()) {
+    throw withFailureUsage(new AnalysisFailure('schema_parse', 'The model returned an empty answer.'), usage);
+  }
+  return {answer: text.trim(), promptVersion, usage};
+});
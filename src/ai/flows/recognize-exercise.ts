@@ -0,0 +1,90 @@
+'use server';
+/**
+ * @fileOverview Recognizes which catalog exercise is being performed in a clip.
+ *
+ * - recognizeExercise - Identifies the exercise with a confidence, or returns a classified error.
+ * - RecognizeExerciseInput - The input type for the recognizeExercise function.
+ * - RecognizeExerciseOutput - The return type for the recognizeExercise function.
+ */
+
+import {ai, withModelFallback} from '@/ai/ai-instance';
+import {ClipFramesSchema, ClipPromptInputShape, toClipPromptInput} from '@/ai/clip';
+import {AnalysisFailure, classifyAnalysisError, type AnalysisResult} from '@/ai/errors';
+import {normalizeFrames} from '@/ai/frame-validation';
+import {resolveVersionedPrompt} from '@/ai/prompt-registry';
+import {ModelUsageSchema, withFailureUsage} from '@/ai/usage';
+import {EXERCISES} from '@/lib/exercises';
+import {z} from 'genkit';
+
+const RecognizeExerciseInputSchema = z.object({
+  frames: ClipFramesSchema,
+});
+export type RecognizeExerciseInput = z.infer<typeof RecognizeExerciseInputSchema>;
+
+const RecognizeExercisePromptOutputSchema = z.object({
+  exerciseType: z
+    .enum([...EXERCISES, 'none'])
+    .describe('The exercise being performed, or "none" if it is not one of the listed exercises.'),
+  confidence: z.number().describe('How confident you are in the answer, between 0 and 1.'),
+});
+
+const RecognizeExerciseOutputSchema = z.object({
+  exerciseType: z.enum(EXERCISES).nullable().describe('The recognized exercise; null when none of the catalog matched.'),
+  confidence: z.number().describe('Confidence in the recognition, between 0 and 1.'),
+  promptVersion: z.string(),
+  usage: z.array(ModelUsageSchema),
+});
+export type RecognizeExerciseOutput = z.infer<typeof RecognizeExerciseOutputSchema>;
+
+export async function recognizeExercise(
+  input: RecognizeExerciseInput
+): Promise<AnalysisResult<RecognizeExerciseOutput>> {
+  const parsed = RecognizeExerciseInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {ok: false, error: {code: 'invalid_input', message: `${issue.path.join('.') || 'input'}: ${issue.message}`}};
+  }
+  try {
+    const frames = await normalizeFrames(parsed.data.frames);
+    return {ok: true, result: await recognizeExerciseFlow({frames})};
+  } catch (err) {
+    const error = classifyAnalysisError(err);
+    console.error(`recognizeExercise failed (${error.code}):`, err);
+    return {ok: false, error};
+  }
+}
+
+const RecognizeExercisePromptInputSchema = z.object({
+  ...ClipPromptInputShape,
+  exercises: z.array(z.string()).describe('The exercises the answer must be chosen from.'),
+});
+
+// Referenced by name from the frontmatter of prompts/recognizeExercise.prompt
+ai.defineSchema('RecognizeExercisePromptInput', RecognizeExercisePromptInputSchema);
+ai.defineSchema('RecognizeExercisePromptOutput', RecognizeExercisePromptOutputSchema);
+
+const recognizeExerciseFlow = ai.defineFlow<
+  typeof RecognizeExerciseInputSchema,
+  typeof RecognizeExerciseOutputSchema
+>({
+  name: 'recognizeExerciseFlow',
+  inputSchema: RecognizeExerciseInputSchema,
+  outputSchema: RecognizeExerciseOutputSchema,
+}, async input => {
+  const {prompt, promptVersion} = await resolveVersionedPrompt<
+    typeof RecognizeExercisePromptInputSchema,
+    typeof RecognizeExercisePromptOutputSchema
+  >('recognizeExercise');
+  const {response: {output}, usage} = await withModelFallback(options =>
+    prompt({...toClipPromptInput(input.frames), exercises: [...EXERCISES]}, options)
+  );
+  if (!output) {
+    throw withFailureUsage(new AnalysisFailure('schema_parse', 'The model returned no structured output.'), usage);
+  }
+  return {
+    exerciseType: output.exerciseType === 'none' ? null : output.exerciseType,
+    confidence: Math.min(1, Math.max(0, output.confidence)),
+    promptVersion,
+    usage,
+  };
+});
@@ -0,0 +1,305 @@
+'use server';
+/**
+ * @fileOverview Turns every form analysis from one session into an end-of-session report.
+ *
+ * The clips are tallied here first, so the counts in the report come from the results themselves
+ * rather than from the model's reading of them.
+ *
+ * - summarizeSession - Writes the report, or returns a classified error.
+ * - SessionClip - One analyzed clip of the session, as the report needs it.
+ * - SummarizeSessionInput - The input type for the summarizeSession function.
+ * - SummarizeSessionOutput - The return type for the summarizeSession function.
+ */
+
+import {ai, withModelFallback} from '@/ai/ai-instance';
+import {AnalysisFailure, classifyAnalysisError, type AnalysisResult} from '@/ai/errors';
+import {resolveVersionedPrompt} from '@/ai/prompt-registry';
+import {ModelUsageSchema, withFailureUsage} from '@/ai/usage';
+import {DEFAULT_LOCALE, LOCALE_LANGUAGE_NAMES, SUPPORTED_LOCALES} from '@/lib/locales';
+import {describeExpectedRange} from '@/lib/range-of-motion';
+import {MAX_SESSION_CLIPS} from '@/lib/session';
+import {
+  BODY_SIDES,
+  SideRepTempoSchema,
+  SymmetryReportSchema,
+  buildSymmetryReports,
+  type SymmetryReport,
+} from '@/lib/symmetry';
+import {formatTempo} from '@/lib/tempo';
+import {z} from 'genkit';
+
+const MAX_TOP_CUES = 3;
+const MAX_EXAMPLE_CUES = 3; // Per body region, in the tally the model sees
+
+const SEVERITIES = ['low', 'medium', 'high'] as const;
+type Severity = (typeof SEVERITIES)[number];
+
+// Extra fields of a full analysis result (explanations, confidences) are accepted and stripped.
+const SessionClipSchema = z.object({
+  exerciseType: z.string(),
+  formCorrect: z.boolean(),
+  feedback: z.string(),
+  issues: z.array(
+    z.object({
+      bodyRegion: z.string(),
+      side: z.enum(BODY_SIDES),
+      severity: z.enum(SEVERITIES),
+      cue: z.string(),
+    })
+  ),
+  checkpoints: z.array(
+    z.object({
+      label: z.string(),
+      status: z.enum(['pass', 'fail', 'unknown']),
+    })
+  ),
+  rangeOfMotion: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string(),
+      side: z.enum(BODY_SIDES),
+      degrees: z.number(),
+      minDegrees: z.number().optional(),
+      maxDegrees: z.number().optional(),
+      withinRange: z.boolean(),
+    })
+  ),
+});
+export type SessionClip = z.infer<typeof SessionClipSchema>;
+
+const SummarizeSessionInputSchema = z.object({
+  clips: z.array(SessionClipSchema).min(1).max(MAX_SESSION_CLIPS).describe('The analyzed clips of the session, in order; the most recent ones for a longer session.'),
+  durationSeconds: z.number().nonnegative().describe('How long the session ran.'),
+  repTempos: z
+    .array(SideRepTempoSchema)
+    .describe('The measured tempo of every one-sided rep, for comparing the left and right side.'),
+  locale: z.enum(SUPPORTED_LOCALES).optional().describe('The language to write the report in. Defaults to English.'),
+});
+export type SummarizeSessionInput = z.infer<typeof SummarizeSessionInputSchema>;
+
+const RecurringIssueSchema = z.object({
+  bodyRegion: z.string().describe('The body region of the issue, exactly as given in the issue tally.'),
+  description: z.string().describe('One sentence describing the recurring problem.'),
+});
+
+const SummarizeSessionPromptOutputSchema = z.object({
+  summary: z.string().describe('Two or three sentences summing up the session.'),
+  wentWell: z.array(z.string()).describe('Short statements of what the user did well. May be empty.'),
+  recurringIssues: z
+    .array(RecurringIssueSchema)
+    .describe('The problems that came up in more than one clip, most important first. Empty when none recurred.'),
+  topCues: z.array(z.string()).describe(`The ${MAX_TOP_CUES} cues to focus on next session, most important first.`),
+  overallScore: z.number().describe('An overall form score for the session, from 0 to 100.'),
+});
+
+const RangeOfMotionTallySchema = z.object({
+  exerciseType: z.string(),
+  label: z.string(),
+  side: z.enum(BODY_SIDES).describe("The side the angle was read on; 'both' when the sides could not be told apart."),
+  expected: z.string().describe('The range a full rep reaches, e.g. "100° or less".'),
+  measured: z.number().describe('Reps the angle was read on, one reading per rep.'),
+  partial: z.number().describe('Reps where it fell short of the expected range.'),
+  averageDegrees: z.number(),
+  worstDegrees: z.number().describe('The measured angle furthest outside the expected range, or the average if none was.'),
+});
+export type RangeOfMotionTally = z.infer<typeof RangeOfMotionTallySchema>;
+
+const SummarizeSessionOutputSchema = SummarizeSessionPromptOutputSchema.extend({
+  recurringIssues: z.array(
+    RecurringIssueSchema.extend({
+      occurrences: z.number().describe('How many clips showed an issue in this body region.'),
+    })
+  ),
+  clipCount: z.number(),
+  correctClipCount: z.number().describe('Clips the analysis judged as correct form.'),
+  rangeOfMotion: z.array(RangeOfMotionTallySchema).describe('How far each measured joint angle went across the session.'),
+  symmetry: z.array(SymmetryReportSchema).describe('Left versus right, per exercise where the sides could be told apart.'),
+  locale: z.enum(SUPPORTED_LOCALES).describe('The language the report was requested in.'),
+  promptVersion: z.string(),
+  usage: z.array(ModelUsageSchema),
+});
+export type SummarizeSessionOutput = z.infer<typeof SummarizeSessionOutputSchema>;
+
+export async function summarizeSession(
+  input: SummarizeSessionInput
+): Promise<AnalysisResult<SummarizeSessionOutput>> {
+  const parsed = SummarizeSessionInputSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {ok: false, error: {code: 'invalid_input', message: `${issue.path.join('.') || 'input'}: ${issue.message}`}};
+  }
+  try {
+    return {ok: true, result: await summarizeSessionFlow(parsed.data)};
+  } catch (err) {
+    const error = classifyAnalysisError(err);
+    console.error(`summarizeSession failed (${error.code}):`, err);
+    return {ok: false, error};
+  }
+}
+
+const SummarizeSessionPromptInputSchema = z.object({
+  exercises: z.array(z.string()).describe('The exercises performed, in the order they were first analyzed.'),
+  durationMinutes: z.number(),
+  clipCount: z.number(),
+  correctClipCount: z.number(),
+  issueTally: z
+    .array(
+      z.object({
+        bodyRegion: z.string(),
+        occurrences: z.number(),
+        worstSeverity: z.enum(SEVERITIES),
+        exampleCues: z.array(z.string()),
+      })
+    )
+    .describe('Clips with an issue in each body region, most frequent first.'),
+  checkpointTally: z
+    .array(z.object({label: z.string(), passed: z.number(), failed: z.number()}))
+    .describe('Rubric checkpoints that were judged at least once, with how often they passed and failed.'),
+  rangeOfMotionTally: z
+    .array(RangeOfMotionTallySchema)
+    .describe('Joint angles measured at least once, with how often the rep was partial.'),
+  symmetryTally: z
+    .array(z.object({exerciseType: z.string(), imbalanced: z.boolean(), notes: z.array(z.string())}))
+    .describe('Left versus right comparisons, per exercise where the sides could be told apart.'),
+  clipFeedback: z.array(z.string()).describe("Each clip's one-line summary, in order."),
+  language: z.string().describe('The language to write the report in, e.g. "Spanish".'),
+});
+
+// Referenced by name from the frontmatter of prompts/summarizeSession.prompt
+ai.defineSchema('SummarizeSessionPromptInput', SummarizeSessionPromptInputSchema);
+ai.defineSchema('SummarizeSessionPromptOutput', SummarizeSessionPromptOutputSchema);
+
+const SEVERITY_ORDER: Record<Severity, number> = {low: 0, medium: 1, high: 2};
+
+const formatDegrees = (degrees: number | null) => (degrees === null ? 'not measured' : `${degrees}°`);
+const formatSideTempo = (tempo: SymmetryReport['tempo']['left'], reps: number) =>
+  tempo ? `${formatTempo(tempo)}s over ${reps} reps` : 'no reps';
+const imbalancedMark = (imbalanced: boolean) => (imbalanced ? ' (imbalanced)' : '');
+
+// One line per comparison, for the prompt
+function symmetryNotes({rangeOfMotion, tempo, issues}: SymmetryReport): string[] {
+  const notes = rangeOfMotion.map(
+    entry =>
+      `${entry.label}: left ${formatDegrees(entry.leftDegrees)}, right ${formatDegrees(entry.rightDegrees)}${imbalancedMark(entry.imbalanced)}`
+  );
+  if (tempo.left || tempo.right) {
+    notes.push(
+      `Tempo (down-pause-up): left ${formatSideTempo(tempo.left, tempo.leftReps)}, right ${formatSideTempo(tempo.right, tempo.rightReps)}${imbalancedMark(tempo.imbalanced)}`
+    );
+  }
+  notes.push(`Issues: ${issues.left.count} on the left, ${issues.right.count} on the right${imbalancedMark(issues.imbalanced)}`);
+  return notes;
+}
+
+function tallySession(
+  input: SummarizeSessionInput,
+  symmetry: SymmetryReport[]
+): z.infer<typeof SummarizeSessionPromptInputSchema> {
+  const issues = new Map<string, {occurrences: number; worstSeverity: Severity; exampleCues: string[]}>();
+  const checkpoints = new Map<string, {passed: number; failed: number}>();
+  const readings = new Map<string, {exerciseType: string; reading: SessionClip['rangeOfMotion'][number]; all: SessionClip['rangeOfMotion']}>();
+  for (const clip of input.clips) {
+    // A region counts once per clip, however many issues the clip reported there
+    for (const region of new Set(clip.issues.map(issue => issue.bodyRegion))) {
+      const regionIssues = clip.issues.filter(issue => issue.bodyRegion === region);
+      const entry = issues.get(region) ?? {occurrences: 0, worstSeverity: 'low', exampleCues: []};
+      entry.occurrences += 1;
+      for (const issue of regionIssues) {
+        if (SEVERITY_ORDER[issue.severity] > SEVERITY_ORDER[entry.worstSeverity]) {
+          entry.worstSeverity = issue.severity;
+        }
+        if (entry.exampleCues.length < MAX_EXAMPLE_CUES && !entry.exampleCues.includes(issue.cue)) {
+          entry.exampleCues.push(issue.cue);
+        }
+      }
+      issues.set(region, entry);
+    }
+    for (const checkpoint of clip.checkpoints) {
+      if (checkpoint.status === 'unknown') {
+        continue;
+      }
+      const entry = checkpoints.get(checkpoint.label) ?? {passed: 0, failed: 0};
+      entry[checkpoint.status === 'pass' ? 'passed' : 'failed'] += 1;
+      checkpoints.set(checkpoint.label, entry);
+    }
+    // Keyed by exercise as well, since e.g. a push-up and a curl both measure the elbow at the top, and by side so
+    // a weaker side isn't averaged away
+    for (const reading of clip.rangeOfMotion) {
+      const key = `${clip.exerciseType}:${reading.id}:${reading.side}`;
+      const entry = readings.get(key) ?? {exerciseType: clip.exerciseType, reading, all: []};
+      entry.all.push(reading);
+      readings.set(key, entry);
+    }
+  }
+  return {
+    exercises: [...new Set(input.clips.map(clip => clip.exerciseType))],
+    durationMinutes: Math.round(input.durationSeconds / 6) / 10,
+    clipCount: input.clips.length,
+    correctClipCount: input.clips.filter(clip => clip.formCorrect).length,
+    issueTally: [...issues.entries()]
+      .map(([bodyRegion, entry]) => ({bodyRegion, ...entry}))
+      .sort((a, b) => b.occurrences - a.occurrences),
+    checkpointTally: [...checkpoints.entries()].map(([label, entry]) => ({label, ...entry})),
+    rangeOfMotionTally: [...readings.values()].map(({exerciseType, reading, all}) => {
+      const averageDegrees = Math.round(all.reduce((sum, entry) => sum + entry.degrees, 0) / all.length);
+      const shortfall = (degrees: number) =>
+        Math.max((reading.minDegrees ?? degrees) - degrees, degrees - (reading.maxDegrees ?? degrees), 0);
+      const worst = all.reduce((furthest, entry) => (shortfall(entry.degrees) > shortfall(furthest.degrees) ? entry : furthest));
+      return {
+        exerciseType,
+        label: reading.label,
+        side: reading.side,
+        expected: describeExpectedRange(reading, input.locale),
+        measured: all.length,
+        partial: all.filter(entry => !entry.withinRange).length,
+        averageDegrees,
+        worstDegrees: shortfall(worst.degrees) > 0 ? worst.degrees : averageDegrees,
+      };
+    }),
+    symmetryTally: symmetry.map(report => ({
+      exerciseType: report.exerciseType,
+      imbalanced: report.imbalanced,
+      notes: symmetryNotes(report),
+    })),
+    clipFeedback: input.clips.map(clip => clip.feedback),
+    language: LOCALE_LANGUAGE_NAMES[input.locale ?? DEFAULT_LOCALE],
+  };
+}
+
+const summarizeSessionFlow = ai.defineFlow<
+  typeof SummarizeSessionInputSchema,
+  typeof SummarizeSessionOutputSchema
+>({
+  name: 'summarizeSessionFlow',
+  inputSchema: SummarizeSessionInputSchema,
+  outputSchema: SummarizeSessionOutputSchema,
+}, async input => {
+  const symmetry = buildSymmetryReports(input.clips, input.repTempos);
+  const tally = tallySession(input, symmetry);
+  const {prompt, promptVersion} = await resolveVersionedPrompt<
+    typeof SummarizeSessionPromptInputSchema,
+    typeof SummarizeSessionPromptOutputSchema
+  >('summarizeSession');
+  const {response: {output}, usage} = await withModelFallback(options => prompt(tally, options));
+  if (!output) {
+    throw withFailureUsage(new AnalysisFailure('schema_parse', 'The model returned no structured output.'), usage);
+  }
+  const occurrences = new Map(tally.issueTally.map(entry => [entry.bodyRegion, entry.occurrences]));
+  return {
+    ...output,
+    // Only regions that really recurred, with their counted occurrences rather than the model's
+    recurringIssues: output.recurringIssues.flatMap(issue => {
+      const count = occurrences.get(issue.bodyRegion) ?? 0;
+      return count > 1 ? [{...issue, occurrences: count}] : [];
+    }),
+    topCues: output.topCues.slice(0, MAX_TOP_CUES),
+    overallScore: Math.round(Math.min(100, Math.max(0, output.overallScore))),
+    clipCount: tally.clipCount,
+    correctClipCount: tally.correctClipCount,
+    rangeOfMotion: tally.rangeOfMotionTally,
+    symmetry,
+    locale: input.locale ?? DEFAULT_LOCALE,
+    promptVersion,
+    usage,
+  };
+});
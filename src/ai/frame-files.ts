@@ -0,0 +1,31 @@
+/**
+ * @fileOverview Reads a directory of image files as the frames of a clip, for datasets kept on disk
+ * (the evaluation dataset and the reference-example library).
+ *
+ * Frames are .jpg, .jpeg, .png or .webp files, in filename order; a single image is a one-frame clip.
+ */
+
+import {readdir, readFile} from 'fs/promises';
+import path from 'path';
+
+const FRAME_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * The frame files of `directory`, in filename order.
+ */
+export async function listFrameFiles(directory: string): Promise<string[]> {
+  return (await readdir(directory)).filter(file => path.extname(file).toLowerCase() in FRAME_MIME_TYPES).sort();
+}
+
+/**
+ * Reads a frame file as a Base64 data URI.
+ */
+export async function readFrameFile(file: string): Promise<string> {
+  const data = await readFile(file);
+  return `data:${FRAME_MIME_TYPES[path.extname(file).toLowerCase()]};base64,${data.toString('base64')}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Server-side validation and normalization of the frames clients send for analysis.
+ *
+ * Server actions are public endpoints, so nothing the browser sends is trusted: every frame must be a
+ * base64 data URI of an allowed image type that really decodes to that type, within a size budget.
+ * Frames wider or taller than MAX_FRAME_DIMENSION are downscaled before they reach the model.
+ */
+
+import sharp from 'sharp';
+import {AnalysisFailure} from '@/ai/errors';
+
+export const ALLOWED_FRAME_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const MAX_FRAME_BYTES = 2 * 1024 * 1024; // Decoded size of a single frame
+export const MAX_FRAMES = 30;
+export const MAX_FRAME_DIMENSION = 1024; // Longest side, in pixels, after normalization
+// All frames of a clip together, as sent; the serverActions bodySizeLimit in next.config.ts, so keep the two in step
+export const MAX_CLIP_BYTES = 4 * 1024 * 1024;
+
+// The format sharp detects in the decoded bytes, for each allowed MIME type
+const SHARP_FORMATS: Record<(typeof ALLOWED_FRAME_MIME_TYPES)[number], string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const DATA_URI_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+const NORMALIZED_JPEG_QUALITY = 80;
+
+const isAllowedMimeType = (mimeType: string): mimeType is (typeof ALLOWED_FRAME_MIME_TYPES)[number] =>
+  (ALLOWED_FRAME_MIME_TYPES as readonly string[]).includes(mimeType);
+
+/**
+ * Validates one frame and returns it as a data URI that is safe to send to the model, downscaled if needed.
+ * Throws an 'invalid_input' AnalysisFailure naming the reason when the frame is rejected.
+ */
+export async function normalizeFrameDataUri(dataUri: string, label = 'Frame'): Promise<string> {
+  const match = DATA_URI_PATTERN.exec(dataUri);
+  if (!match) {
+    throw new AnalysisFailure('invalid_input', `${label} is not a base64 data URI.`, 'malformed_frame');
+  }
+  const [, mimeType, base64] = match;
+  if (!isAllowedMimeType(mimeType)) {
+    throw new AnalysisFailure(
+      'invalid_input',
+      `${label} has type ${mimeType}; expected one of ${ALLOWED_FRAME_MIME_TYPES.join(', ')}.`,
+      'unsupported_mime_type'
+    );
+  }
+  // Checked before decoding so an oversized payload is never buffered twice
+  if (base64.length > Math.ceil(MAX_FRAME_BYTES / 3) * 4) {
+    throw new AnalysisFailure('invalid_input', `${label} is larger than ${MAX_FRAME_BYTES} bytes.`, 'frame_too_large');
+  }
+  const bytes = Buffer.from(base64, 'base64');
+  // Buffer.from silently skips bad input, so round-trip to catch truncated or mis-padded payloads
+  if (bytes.length === 0 || bytes.toString('base64').replace(/=+$/, '') !== base64.replace(/=+$/, '')) {
+    throw new AnalysisFailure('invalid_input', `${label} does not contain valid base64 data.`, 'malformed_frame');
+  }
+  if (bytes.length > MAX_FRAME_BYTES) {
+    throw new AnalysisFailure('invalid_input', `${label} is larger than ${MAX_FRAME_BYTES} bytes.`, 'frame_too_large');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes).metadata();
+  } catch {
+    throw new AnalysisFailure('invalid_input', `${label} could not be decoded as an image.`, 'undecodable_image');
+  }
+  if (metadata.format !== SHARP_FORMATS[mimeType] || !metadata.width || !metadata.height) {
+    throw new AnalysisFailure(
+      'invalid_input',
+      `${label} is declared as ${mimeType} but does not decode as one.`,
+      'undecodable_image'
+    );
+  }
+
+  if (Math.max(metadata.width, metadata.height) <= MAX_FRAME_DIMENSION) {
+    return dataUri;
+  }
+  const resized = await sharp(bytes)
+    .rotate() // Apply EXIF orientation before resizing, since re-encoding drops it
+    .resize({width: MAX_FRAME_DIMENSION, height: MAX_FRAME_DIMENSION, fit: 'inside'})
+    .jpeg({quality: NORMALIZED_JPEG_QUALITY})
+    .toBuffer();
+  return `data:image/jpeg;base64,${resized.toString('base64')}`;
+}
+
+/**
+ * Validates and normalizes every frame of a clip, preserving order and timestamps.
+ */
+export async function normalizeFrames<T extends {dataUri: string}>(frames: T[]): Promise<T[]> {
+  if (frames.length > MAX_FRAMES) {
+    throw new AnalysisFailure(
+      'invalid_input',
+      `A clip may have at most ${MAX_FRAMES} frames, got ${frames.length}.`,
+      'too_many_frames'
+    );
+  }
+  // Checked before any frame is decoded, so an oversized clip never reaches sharp
+  const clipBytes = frames.reduce((total, frame) => total + frame.dataUri.length, 0);
+  if (clipBytes > MAX_CLIP_BYTES) {
+    throw new AnalysisFailure('invalid_input', `A clip may be at most ${MAX_CLIP_BYTES} bytes, got ${clipBytes}.`, 'clip_too_large');
+  }
+  return Promise.all(
+    frames.map(async (frame, index) => ({
+      ...frame,
+      dataUri: await normalizeFrameDataUri(frame.dataUri, `Frame ${index + 1}`),
+    }))
+  );
+}
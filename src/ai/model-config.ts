@@ -0,0 +1,52 @@
+/**
+ * @fileOverview Typed configuration of the model provider behind the Genkit instance.
+ *
+ * Read from the environment (including `.env.local`), so staging and production can run different models:
+ * - GENKIT_PROVIDER - Which plugin serves the models: 'googleai' (default) or 'mock' for the offline mock model.
+ * - GENKIT_MODEL - The primary model name, without the provider prefix. Defaults to the provider's default model.
+ * - GENKIT_FALLBACK_MODEL - Optional model to retry on when the primary model errors.
+ * - GENKIT_TEMPERATURE - Optional sampling temperature, between 0 and 2.
+ */
+
+import {z} from 'genkit';
+
+export const MODEL_PROVIDERS = ['googleai', 'mock'] as const;
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+const DEFAULT_MODELS: Record<ModelProvider, string> = {
+  googleai: 'gemini-2.0-flash',
+  mock: 'form-coach',
+};
+
+const ModelConfigSchema = z.object({
+  provider: z.enum(MODEL_PROVIDERS).default('googleai'),
+  model: z.string().min(1).optional(),
+  fallbackModel: z.string().min(1).optional(),
+  temperature: z.coerce.number().min(0).max(2).optional(),
+});
+export type ModelConfig = z.infer<typeof ModelConfigSchema> & {model: string};
+
+/**
+ * Builds the model config from environment variables, rejecting invalid values at startup rather than on the first request.
+ */
+export function loadModelConfig(env: NodeJS.ProcessEnv = process.env): ModelConfig {
+  const parsed = ModelConfigSchema.safeParse({
+    provider: env.GENKIT_PROVIDER || undefined,
+    model: env.GENKIT_MODEL || undefined,
+    fallbackModel: env.GENKIT_FALLBACK_MODEL || undefined,
+    temperature: env.GENKIT_TEMPERATURE || undefined,
+  });
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid model configuration: ${problems}`);
+  }
+  const {provider, model, ...rest} = parsed.data;
+  return {provider, model: model ?? DEFAULT_MODELS[provider], ...rest};
+}
+
+/**
+ * Qualifies a model name with its provider prefix, e.g. 'googleai/gemini-2.0-flash'.
+ */
+export function qualifiedModelName(provider: ModelProvider, model: string): string {
+  return `${provider}/${model}`;
+}
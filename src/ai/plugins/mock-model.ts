@@ -0,0 +1,210 @@
+/**
+ * @fileOverview A deterministic, offline stand-in for a real model, for UI development and tests.
+ *
+ * Responses come from a JSON fixture file. Each fixture matches on text contained in the rendered
+ * prompt and replays its scripted steps in order, looping at the end. A step is either an `output`
+ * (returned as the structured output) or an `error` (thrown as a GenkitError with the given status).
+ * Requests no fixture matches get a minimal value synthesized from the requested output schema.
+ * Streaming requests receive the output text in a few chunks spread over the step's latency.
+ * Responses report token usage estimated from the request and output size, as a real model's would.
+ *
+ * Example fixture file:
+ * {
+ *   "fixtures": [
+ *     {"match": "Exercise Type: Squat", "steps": [
+ *       {"output": {"formCorrect": true, "feedback": "Solid depth.", "issues": [], "checkpoints": []}},
+ *       {"error": {"status": "RESOURCE_EXHAUSTED", "message": "Quota exceeded"}, "latencyMs": 50}
+ *     ]}
+ *   ]
+ * }
+ */
+
+import {readFileSync} from 'fs';
+import path from 'path';
+import {GenkitError, z} from 'genkit';
+import {genkitPlugin, type GenkitPlugin} from 'genkit/plugin';
+import type {GenerateRequest, GenerationUsage} from 'genkit/model';
+
+// Error steps are tried first: `output` is z.unknown(), which would also accept a step with no output at all.
+const MockStepSchema = z.union([
+  z.object({
+    error: z.object({
+      status: z.enum(['RESOURCE_EXHAUSTED', 'DEADLINE_EXCEEDED', 'INVALID_ARGUMENT', 'UNAVAILABLE', 'INTERNAL']),
+      message: z.string(),
+    }),
+    latencyMs: z.number().optional(),
+  }),
+  z.object({output: z.unknown(), latencyMs: z.number().optional()}),
+]);
+type MockStep = z.infer<typeof MockStepSchema>;
+
+const MockFixtureFileSchema = z.object({
+  fixtures: z.array(
+    z.object({
+      match: z.string().describe('Substring of the rendered prompt text that selects this fixture.'),
+      steps: z.array(MockStepSchema).min(1),
+    })
+  ),
+});
+type MockFixtureFile = z.infer<typeof MockFixtureFileSchema>;
+
+export interface MockModelOptions {
+  models: string[]; // Model names to register under the 'mock/' prefix
+  fixturesPath?: string; // JSON fixture file, relative to the working directory
+  latencyMs?: number; // Simulated latency for steps that don't set their own
+  errorRate?: number; // Fraction (0-1) of calls that fail with UNAVAILABLE on top of scripted errors
+  seed?: number; // Seed for the error-rate draws, so failing calls are reproducible
+}
+
+/**
+ * Small seeded PRNG (mulberry32); the same seed always produces the same sequence.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const STREAM_CHUNKS = 8; // Pieces a streamed response is split into
+// Rough token counts, so usage accounting has numbers to show offline
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258; // What Gemini charges for an image
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// The parts of a JSON schema node the sampler reads; anything else in the node is ignored
+const JsonSchemaNodeSchema = z.object({
+  enum: z.array(z.unknown()).optional(),
+  anyOf: z.array(z.unknown()).optional(),
+  oneOf: z.array(z.unknown()).optional(),
+  type: z.union([z.string(), z.array(z.string())]).optional(),
+  properties: z.record(z.unknown()).optional(),
+  items: z.unknown().optional(),
+  minItems: z.number().optional(),
+  minimum: z.number().optional(),
+});
+
+/**
+ * Builds the smallest value that satisfies a JSON schema: first enum values, empty arrays, every property present.
+ */
+export function sampleFromJsonSchema(schema: unknown): unknown {
+  const parsed = JsonSchemaNodeSchema.safeParse(schema);
+  if (!parsed.success) {
+    return null;
+  }
+  const node = parsed.data;
+  if (node.enum && node.enum.length > 0) {
+    return node.enum[0];
+  }
+  const variants = node.anyOf ?? node.oneOf;
+  if (variants && variants.length > 0) {
+    return sampleFromJsonSchema(variants[0]);
+  }
+  const type = Array.isArray(node.type) ? node.type.find(t => t !== 'null') : node.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(node.properties ?? {}).map(([key, value]) => [key, sampleFromJsonSchema(value)])
+      );
+    case 'array':
+      return Array.from({length: node.minItems ?? 0}, () => sampleFromJsonSchema(node.items));
+    case 'string':
+      return 'Mock response.';
+    case 'number':
+      return node.minimum ?? 0.5;
+    case 'integer':
+      return node.minimum ?? 0;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+function requestText(request: GenerateRequest): string {
+  return request.messages
+    .flatMap(message => message.content)
+    .map(part => part.text ?? '')
+    .join('\n');
+}
+
+function estimateUsage(request: GenerateRequest, outputText: string): GenerationUsage {
+  const inputTokens = request.messages
+    .flatMap(message => message.content)
+    .reduce((total, part) => total + (part.media ? TOKENS_PER_IMAGE : Math.ceil((part.text ?? '').length / CHARS_PER_TOKEN)), 0);
+  const outputTokens = Math.ceil(outputText.length / CHARS_PER_TOKEN);
+  return {inputTokens, outputTokens, totalTokens: inputTokens + outputTokens};
+}
+
+function loadFixtures(fixturesPath: string | undefined): MockFixtureFile {
+  if (!fixturesPath) {
+    return {fixtures: []};
+  }
+  const raw = JSON.parse(readFileSync(path.resolve(process.cwd(), fixturesPath), 'utf8'));
+  return MockFixtureFileSchema.parse(raw);
+}
+
+export function mockModel(options: MockModelOptions): GenkitPlugin {
+  return genkitPlugin('mock', async ai => {
+    const {fixtures} = loadFixtures(options.fixturesPath);
+    const random = createRandom(options.seed ?? 1);
+    const cursors = new Map<number, number>(); // Next step to replay, per fixture
+
+    const nextStep = (request: GenerateRequest): MockStep => {
+      const text = requestText(request);
+      const index = fixtures.findIndex(fixture => text.includes(fixture.match));
+      if (index === -1) {
+        return {output: sampleFromJsonSchema(request.output?.schema)};
+      }
+      const cursor = cursors.get(index) ?? 0;
+      cursors.set(index, cursor + 1);
+      const steps = fixtures[index].steps;
+      return steps[cursor % steps.length];
+    };
+
+    for (const model of options.models) {
+      ai.defineModel(
+        {
+          name: `mock/${model}`,
+          label: `Mock - ${model}`,
+          supports: {multiturn: true, media: true, systemRole: true, output: ['json', 'text'], constrained: 'all'},
+        },
+        async (request, streamingCallback) => {
+          const step = nextStep(request);
+          const latencyMs = step.latencyMs ?? options.latencyMs ?? 0;
+
+          if ('error' in step) {
+            await sleep(latencyMs);
+            throw new GenkitError({status: step.error.status, message: step.error.message});
+          }
+          if (options.errorRate && random() < options.errorRate) {
+            await sleep(latencyMs);
+            throw new GenkitError({status: 'UNAVAILABLE', message: 'Simulated mock model outage.'});
+          }
+
+          const text = typeof step.output === 'string' ? step.output : JSON.stringify(step.output);
+          if (streamingCallback) {
+            // Spread the latency over the chunks, like a real model generating token by token
+            const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+            for (let start = 0; start < text.length; start += chunkSize) {
+              await sleep(latencyMs / STREAM_CHUNKS);
+              streamingCallback({content: [{text: text.slice(start, start + chunkSize)}]});
+            }
+          } else {
+            await sleep(latencyMs);
+          }
+          return {
+            message: {role: 'model', content: [{text}]},
+            finishReason: 'stop',
+            usage: estimateUsage(request, text),
+          };
+        }
+      );
+    }
+  });
+}
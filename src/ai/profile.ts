@@ -0,0 +1,44 @@
+/**
+ * @fileOverview How the user's profile is presented to prompts that tailor advice to the user.
+ *
+ * Prompts render the profile with the `{{> userProfile}}` partial (prompts/_userProfile.prompt).
+ */
+
+import {z} from 'genkit';
+import {DEFAULT_LOCALE} from '@/lib/locales';
+import {
+  EXPERIENCE_LEVEL_LABELS,
+  isProfileEmpty,
+  TRAINING_GOAL_LABELS,
+  type UserProfile,
+} from '@/lib/user-profile';
+
+// The prompt-side shape of a profile; spread into a prompt's input schema
+export const ProfilePromptInputShape = {
+  profile: z
+    .object({
+      experienceLevel: z.string().optional(),
+      goals: z.array(z.string()),
+      injuries: z.string(),
+      mobilityRestrictions: z.string(),
+    })
+    .nullable()
+    .describe('What the user told us about themselves; null when they have not filled in a profile.'),
+};
+
+/**
+ * Replaces the profile's codes with readable labels, or gives null for a missing or empty profile.
+ */
+export function toProfilePromptInput(profile: UserProfile | undefined) {
+  if (!profile || isProfileEmpty(profile)) {
+    return {profile: null};
+  }
+  return {
+    profile: {
+      experienceLevel: profile.experienceLevel && EXPERIENCE_LEVEL_LABELS[DEFAULT_LOCALE][profile.experienceLevel],
+      goals: profile.goals.map(goal => TRAINING_GOAL_LABELS[DEFAULT_LOCALE][goal]),
+      injuries: profile.injuries,
+      mobilityRestrictions: profile.mobilityRestrictions,
+    },
+  };
+}
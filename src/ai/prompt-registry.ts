@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Resolves versioned .prompt files from the prompt directory (`./prompts`).
+ *
+ * Prompt files declare a `version` in their frontmatter. Variants live next to the default prompt
+ * as `<name>.<variant>.prompt`; shared fragments are partials named `_<partial>.prompt`.
+ */
+
+import type {z} from 'genkit';
+import {ai} from '@/ai/ai-instance';
+
+export interface VersionedPrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny> {
+  prompt: ReturnType<typeof ai.prompt<I, O>>;
+  promptVersion: string; // e.g. 'analyzeExerciseForm.squat@1.0.0'
+}
+
+/**
+ * Looks up `name`, preferring its `variant` and falling back to the default prompt when no such variant exists.
+ */
+export async function resolveVersionedPrompt<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  name: string,
+  variant?: string
+): Promise<VersionedPrompt<I, O>> {
+  const candidates = variant ? [variant, undefined] : [undefined];
+  for (const candidate of candidates) {
+    const key = candidate ? `${name}.${candidate}` : name;
+    const action = await ai.registry.lookupAction(`/prompt/${key}`);
+    if (action) {
+      const version = action.__action.metadata?.prompt?.version ?? 'unversioned';
+      return {
+        prompt: ai.prompt<I, O>(name, {variant: candidate}),
+        promptVersion: `${key}@${version}`,
+      };
+    }
+  }
+  throw new Error(`Prompt "${name}" was not found in the prompt directory.`);
+}
+
+/**
+ * Turns a display name into a prompt variant key, e.g. 'Bicep Curl' -> 'bicep-curl'.
+ */
+export function promptVariantKey(displayName: string): string {
+  return displayName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
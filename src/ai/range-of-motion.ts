@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Per-exercise range-of-motion measurements: the joint angles estimated for every clip and the range each should reach.
+ *
+ * Angles are the inside angle at the joint, so 180 degrees is a straight limb. Measurement ids are stable
+ * identifiers the model reports back and sessions store, so they must not change once results are stored.
+ */
+
+import {isExerciseType, type ExerciseType} from '@/lib/exercises';
+import type {Locale} from '@/lib/locales';
+
+export interface RangeOfMotionMeasure {
+  id: string;
+  label: Record<Locale, string>; // Short wording shown to the user, in the language of the feedback
+  description: string; // What the model should measure, and at which point of the rep
+  minDegrees?: number; // The angle should reach at least this...
+  maxDegrees?: number; // ...and/or at most this for a full-range rep
+}
+
+export const RANGE_OF_MOTION_MEASURES: Record<ExerciseType, RangeOfMotionMeasure[]> = {
+  Squat: [
+    {id: 'knee-angle-bottom', label: {en: 'Knee angle at the bottom', es: 'Ángulo de rodilla abajo', de: 'Kniewinkel unten'}, description: 'The angle between thigh and shin at the deepest point of the squat.', maxDegrees: 100},
+    {id: 'hip-angle-bottom', label: {en: 'Hip angle at the bottom', es: 'Ángulo de cadera abajo', de: 'Hüftwinkel unten'}, description: 'The angle between torso and thigh at the deepest point of the squat.', maxDegrees: 90},
+  ],
+  'Push-up': [
+    {id: 'elbow-angle-bottom', label: {en: 'Elbow angle at the bottom', es: 'Ángulo de codo abajo', de: 'Ellbogenwinkel unten'}, description: 'The angle between upper arm and forearm at the lowest point of the push-up.', maxDegrees: 90},
+    {id: 'elbow-angle-top', label: {en: 'Elbow angle at the top', es: 'Ángulo de codo arriba', de: 'Ellbogenwinkel oben'}, description: 'The angle between upper arm and forearm at the highest point of the push-up.', minDegrees: 160},
+  ],
+  Lunge: [
+    {id: 'front-knee-angle-bottom', label: {en: 'Front knee angle at the bottom', es: 'Ángulo de la rodilla delantera abajo', de: 'Winkel des vorderen Knies unten'}, description: 'The angle between thigh and shin of the front leg at the lowest point of the lunge.', minDegrees: 75, maxDegrees: 105},
+    {id: 'back-knee-angle-bottom', label: {en: 'Back knee angle at the bottom', es: 'Ángulo de la rodilla trasera abajo', de: 'Winkel des hinteren Knies unten'}, description: 'The angle between thigh and shin of the back leg at the lowest point of the lunge.', maxDegrees: 110},
+  ],
+  // A hold has no range of motion; its position is judged by the rubric instead
+  Plank: [],
+  'Bicep Curl': [
+    {id: 'elbow-angle-extended', label: {en: 'Elbow angle at full extension', es: 'Ángulo de codo en extensión completa', de: 'Ellbogenwinkel bei voller Streckung'}, description: 'The angle between upper arm and forearm at the bottom of the curl, with the arm lowered.', minDegrees: 150},
+    {id: 'elbow-angle-top', label: {en: 'Elbow angle at the top', es: 'Ángulo de codo arriba', de: 'Ellbogenwinkel oben'}, description: 'The angle between upper arm and forearm at the top of the curl.', maxDegrees: 60},
+  ],
+};
+
+/**
+ * The measurements for an exercise, or none for exercises outside the catalog.
+ */
+export function rangeOfMotionFor(exerciseType: string): RangeOfMotionMeasure[] {
+  return isExerciseType(exerciseType) ? RANGE_OF_MOTION_MEASURES[exerciseType] : [];
+}
+
+export function isWithinRange({minDegrees, maxDegrees}: Pick<RangeOfMotionMeasure, 'minDegrees' | 'maxDegrees'>, degrees: number): boolean {
+  return (minDegrees === undefined || degrees >= minDegrees) && (maxDegrees === undefined || degrees <= maxDegrees);
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileOverview The reference-example library: labeled images or clips of correct form and of specific faults,
+ * shown to the form-analysis model as few-shot examples of the gym's standards.
+ *
+ * The library is bundled with the app in `./references` (or REFERENCE_DIR): one directory per exercise, named by
+ * its prompt variant key (e.g. `bicep-curl`), with one directory per reference holding its frames (see
+ * ./frame-files.ts) and a reference.json:
+ *   {"verdict": "fault", "title": "Knees caving in", "note": "Both knees drift inside the toes on the way up."}
+ * Frames go through the same validation and downscaling as a user's clip (./frame-validation.ts) when they are read.
+ * The library is re-read every minute, so references can be added or removed without a code change or restart.
+ *
+ * The bundled references are line drawings, one correct and one fault per exercise; a gym replaces or extends
+ * them with photos or clips of its own.
+ *
+ * Prompts render references with the `{{> referenceExamples}}` partial (prompts/_referenceExamples.prompt).
+ */
+
+import {readdir, readFile} from 'fs/promises';
+import path from 'path';
+import {z} from 'genkit';
+import {listFrameFiles, readFrameFile} from '@/ai/frame-files';
+import {normalizeFrames} from '@/ai/frame-validation';
+import {promptVariantKey} from '@/ai/prompt-registry';
+import {parseNonNegativeNumber} from '@/lib/utils';
+
+const REFERENCE_DIR = process.env.REFERENCE_DIR || './references';
+// Every reference adds its frames to each request, so only the first few (in directory-name order) are used
+const MAX_REFERENCES = parseNonNegativeNumber(process.env.MAX_FORM_REFERENCES, 4);
+const MAX_REFERENCE_FRAMES = 3; // Longer clips are sampled evenly down to this many frames
+const CACHE_TTL_MS = 60_000;
+
+const ReferenceFileSchema = z.object({
+  verdict: z.enum(['correct', 'fault']),
+  title: z.string().min(1),
+  note: z.string().default(''),
+});
+
+export interface FormReference extends z.infer<typeof ReferenceFileSchema> {
+  id: string; // '<exercise>/<directory>', e.g. 'squat/02-knees-caving'
+  frames: string[]; // Data URIs, in order
+}
+
+// The prompt-side shape of the references; spread into a prompt's input schema
+export const ReferencePromptInputShape = {
+  references: z
+    .array(
+      z.object({
+        verdict: z.enum(['correct', 'fault']),
+        title: z.string(),
+        note: z.string(),
+        frames: z.array(z.object({dataUri: z.string()})),
+      })
+    )
+    .describe('Labeled reference examples of the exercise. Empty when the library has none.'),
+};
+
+export function toReferencePromptInput(references: FormReference[]) {
+  return {
+    references: references.map(({verdict, title, note, frames}) => ({
+      verdict,
+      title,
+      note,
+      frames: frames.map(dataUri => ({dataUri})),
+    })),
+  };
+}
+
+const cache = new Map<string, {loadedAt: number; references: Promise<FormReference[]>}>();
+
+/**
+ * The references for an exercise; none when the library has no directory for it or MAX_FORM_REFERENCES is 0.
+ * Broken references are skipped with a warning rather than failing the analysis.
+ */
+export async function loadReferences(exerciseType: string): Promise<FormReference[]> {
+  if (!(MAX_REFERENCES > 0)) {
+    return [];
+  }
+  const exercise = promptVariantKey(exerciseType);
+  const cached = cache.get(exercise);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.references;
+  }
+  const references = readExerciseReferences(exercise);
+  cache.set(exercise, {loadedAt: Date.now(), references});
+  return references;
+}
+
+async function readExerciseReferences(exercise: string): Promise<FormReference[]> {
+  const directory = path.join(REFERENCE_DIR, exercise);
+  let names: string[];
+  try {
+    names = (await readdir(directory, {withFileTypes: true}))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  } catch {
+    return []; // No references for this exercise
+  }
+
+  const references: FormReference[] = [];
+  for (const name of names) {
+    if (references.length >= MAX_REFERENCES) {
+      break;
+    }
+    try {
+      references.push(await readReference(directory, `${exercise}/${name}`, name));
+    } catch (err) {
+      console.warn(`Skipping form reference ${exercise}/${name}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return references;
+}
+
+async function readReference(exerciseDirectory: string, id: string, name: string): Promise<FormReference> {
+  const directory = path.join(exerciseDirectory, name);
+  const label = ReferenceFileSchema.parse(JSON.parse(await readFile(path.join(directory, 'reference.json'), 'utf8')));
+  const frameFiles = await listFrameFiles(directory);
+  if (frameFiles.length === 0) {
+    throw new Error('No frames.');
+  }
+  const step = frameFiles.length / Math.min(frameFiles.length, MAX_REFERENCE_FRAMES);
+  const sampled = Array.from({length: Math.min(frameFiles.length, MAX_REFERENCE_FRAMES)}, (_, i) => frameFiles[Math.floor(i * step)]);
+  // Validated and downscaled like a user's clip, once per load rather than on every analysis
+  const frames = await normalizeFrames(
+    await Promise.all(sampled.map(async file => ({dataUri: await readFrameFile(path.join(directory, file))})))
+  );
+  return {id, ...label, frames: frames.map(frame => frame.dataUri)};
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Per-exercise form rubrics: the fixed checklist every clip of an exercise is judged against.
+ *
+ * Checkpoint ids are stable identifiers the model reports back, so they must not change once results are stored.
+ */
+
+import {isExerciseType, type ExerciseType} from '@/lib/exercises';
+import type {Locale} from '@/lib/locales';
+
+export interface RubricCheckpoint {
+  id: string;
+  label: Record<Locale, string>; // Short checklist wording shown to the user, in the language of the feedback
+  description: string; // What the model should look for
+}
+
+export const FORM_RUBRICS: Record<ExerciseType, RubricCheckpoint[]> = {
+  Squat: [
+    {id: 'knees-track-toes', label: {en: 'Knees track over toes', es: 'Rodillas alineadas con los pies', de: 'Knie über den Zehen'}, description: 'Knees stay in line with the toes and do not cave inward on the way down or up.'},
+    {id: 'hips-below-parallel', label: {en: 'Hips at or below parallel', es: 'Cadera a la altura de las rodillas o más abajo', de: 'Hüfte auf oder unter Kniehöhe'}, description: 'At the bottom, the hip crease is level with or below the top of the knee.'},
+    {id: 'heels-down', label: {en: 'Heels stay down', es: 'Talones apoyados', de: 'Fersen bleiben am Boden'}, description: 'Both heels stay in contact with the floor for the whole rep.'},
+    {id: 'neutral-spine', label: {en: 'Neutral spine', es: 'Columna neutra', de: 'Neutrale Wirbelsäule'}, description: 'The lower back does not round ("butt wink") or over-arch at any point.'},
+    {id: 'chest-up', label: {en: 'Chest up', es: 'Pecho arriba', de: 'Brust aufrecht'}, description: 'The torso stays upright enough that the chest does not collapse toward the knees.'},
+  ],
+  'Push-up': [
+    {id: 'straight-body-line', label: {en: 'Straight body line', es: 'Cuerpo en línea recta', de: 'Gerade Körperlinie'}, description: 'Head, hips and heels stay in one line; hips neither sag nor pike.'},
+    {id: 'elbows-45', label: {en: 'Elbows at about 45°', es: 'Codos a unos 45°', de: 'Ellbogen bei etwa 45°'}, description: 'Elbows are tucked at roughly 45 degrees to the torso rather than flared straight out.'},
+    {id: 'full-depth', label: {en: 'Chest close to the floor', es: 'Pecho cerca del suelo', de: 'Brust nah am Boden'}, description: 'At the bottom, the chest comes within a few centimetres of the floor.'},
+    {id: 'full-lockout', label: {en: 'Arms extend at the top', es: 'Brazos extendidos arriba', de: 'Arme oben gestreckt'}, description: 'The arms straighten fully at the top of each rep.'},
+    {id: 'neutral-neck', label: {en: 'Neutral neck', es: 'Cuello neutro', de: 'Neutraler Nacken'}, description: 'The head stays in line with the spine, without dropping or craning up.'},
+  ],
+  Lunge: [
+    {id: 'upright-torso', label: {en: 'Upright torso', es: 'Torso erguido', de: 'Aufrechter Oberkörper'}, description: 'The torso stays upright instead of folding forward over the front leg.'},
+    {id: 'front-knee-over-foot', label: {en: 'Front knee over foot', es: 'Rodilla delantera sobre el pie', de: 'Vorderes Knie über dem Fuß'}, description: 'The front knee tracks over the front foot and does not collapse inward.'},
+    {id: 'knees-near-90', label: {en: 'Both knees near 90°', es: 'Ambas rodillas cerca de 90°', de: 'Beide Knie nahe 90°'}, description: 'At the bottom, both knees bend to roughly 90 degrees with the back knee just above the floor.'},
+    {id: 'front-heel-planted', label: {en: 'Front heel planted', es: 'Talón delantero apoyado', de: 'Vordere Ferse am Boden'}, description: 'The front heel stays on the floor as the user lowers and drives up.'},
+    {id: 'hips-level', label: {en: 'Hips level and square', es: 'Cadera nivelada y al frente', de: 'Hüfte gerade und nach vorn'}, description: 'The hips stay level and facing forward, without twisting or dropping to one side.'},
+  ],
+  Plank: [
+    {id: 'shoulders-stacked', label: {en: 'Shoulders over elbows or hands', es: 'Hombros sobre codos o manos', de: 'Schultern über Ellbogen oder Händen'}, description: 'The shoulders are stacked directly above the elbows (forearm plank) or hands (high plank).'},
+    {id: 'straight-body-line', label: {en: 'Straight body line', es: 'Cuerpo en línea recta', de: 'Gerade Körperlinie'}, description: 'Head, hips and heels stay in one line; hips neither sag nor pike.'},
+    {id: 'flat-lower-back', label: {en: 'Flat lower back', es: 'Zona lumbar plana', de: 'Flacher unterer Rücken'}, description: 'The lower back is flat rather than arched, with the glutes and core engaged.'},
+    {id: 'neutral-neck', label: {en: 'Neutral neck', es: 'Cuello neutro', de: 'Neutraler Nacken'}, description: 'The head stays in line with the spine, with the gaze just ahead of the hands.'},
+    {id: 'steady-hold', label: {en: 'Steady hold', es: 'Posición estable', de: 'Ruhiges Halten'}, description: 'The position is held still, without shaking or shifting into a different shape.'},
+  ],
+  'Bicep Curl': [
+    {id: 'elbows-pinned', label: {en: 'Elbows pinned to the sides', es: 'Codos pegados al cuerpo', de: 'Ellbogen am Körper'}, description: 'The upper arms stay against the torso; the elbows do not drift forward or flare out.'},
+    {id: 'no-swing', label: {en: 'No swinging', es: 'Sin balanceo', de: 'Kein Schwung'}, description: 'The torso stays still; the user does not lean back or use momentum to lift.'},
+    {id: 'full-extension', label: {en: 'Full extension at the bottom', es: 'Extensión completa abajo', de: 'Volle Streckung unten'}, description: 'The arms straighten fully at the bottom of each rep.'},
+    {id: 'full-contraction', label: {en: 'Curl to shoulder height', es: 'Subir hasta la altura del hombro', de: 'Bis auf Schulterhöhe beugen'}, description: 'The weight is curled up to about shoulder height at the top.'},
+    {id: 'controlled-lowering', label: {en: 'Controlled lowering', es: 'Bajada controlada', de: 'Kontrolliertes Absenken'}, description: 'The weight is lowered under control rather than dropped.'},
+  ],
+};
+
+/**
+ * The rubric for an exercise, or an empty checklist for exercises outside the catalog.
+ */
+export function rubricFor(exerciseType: string): RubricCheckpoint[] {
+  return isExerciseType(exerciseType) ? FORM_RUBRICS[exerciseType] : [];
+}
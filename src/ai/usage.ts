@@ -0,0 +1,89 @@
+/**
+ * @fileOverview Token, latency and cost accounting for model calls.
+ *
+ * Every flow returns the usage of each model attempt it made alongside its result, and a failed flow returns it with
+ * its error (see withModelFallback in ./ai-instance.ts), so the browser can roll it up per session and per user
+ * (src/lib/usage.ts).
+ *
+ * Costs are estimates from the list prices below, in US dollars per million tokens; keep them in step with the
+ * provider's pricing page. Calls to models without a price report a null cost rather than a guess.
+ *
+ * Known gaps: providers don't report tokens for an attempt that throws, so a failed attempt is recorded with its
+ * model and latency but no tokens or cost, although a timeout or a response that fails the output schema may
+ * still be billed. Requests that never reach a flow (the browser is offline, the server action crashes) are not
+ * recorded at all.
+ */
+
+import {z} from 'genkit';
+import type {GenerationUsage} from 'genkit/model';
+
+export const ModelUsageSchema = z.object({
+  model: z.string().describe("The model that answered, e.g. 'googleai/gemini-2.0-flash'."),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  latencyMs: z.number().describe('Wall-clock time of the attempt.'),
+  costUsd: z.number().nullable().describe('Estimated cost in US dollars; null when the model has no known price.'),
+  failed: z.boolean().describe('Whether the attempt failed to produce a usable answer.'),
+});
+export type ModelUsage = z.infer<typeof ModelUsageSchema>;
+
+// The attempts behind an error thrown from a flow, for classifyAnalysisError to return with it
+const failureUsage = new WeakMap<object, ModelUsage[]>();
+
+interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Keyed by qualified model name; every model of the mock provider is free
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'googleai/gemini-2.0-flash': {inputPerMillion: 0.1, outputPerMillion: 0.4},
+  'googleai/gemini-2.0-flash-lite': {inputPerMillion: 0.075, outputPerMillion: 0.3},
+  'googleai/gemini-1.5-flash': {inputPerMillion: 0.075, outputPerMillion: 0.3},
+  'googleai/gemini-1.5-flash-8b': {inputPerMillion: 0.0375, outputPerMillion: 0.15},
+  'googleai/gemini-1.5-pro': {inputPerMillion: 1.25, outputPerMillion: 5},
+};
+
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number | null {
+  if (model.startsWith('mock/')) {
+    return 0;
+  }
+  const price = MODEL_PRICES[model];
+  if (!price) {
+    return null;
+  }
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * The usage of one model call, from the token counts the model reported. Models that don't report them count as 0.
+ */
+export function measureUsage(model: string, usage: GenerationUsage | undefined, latencyMs: number, failed = false): ModelUsage {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  return {
+    model,
+    inputTokens,
+    outputTokens,
+    latencyMs: Math.round(latencyMs),
+    costUsd: estimateCostUsd(model, inputTokens, outputTokens),
+    failed,
+  };
+}
+
+/**
+ * Records the model attempts that led to `err`, marked as failed, and returns it for throwing.
+ */
+export function withFailureUsage<E>(err: E, usage: ModelUsage[]): E {
+  if (typeof err === 'object' && err !== null) {
+    failureUsage.set(err, [...(failureUsage.get(err) ?? []), ...usage.map(attempt => ({...attempt, failed: true}))]);
+  }
+  return err;
+}
+
+/**
+ * The model attempts recorded against an error by withFailureUsage; none for errors thrown before any model call.
+ */
+export function failureUsageOf(err: unknown): ModelUsage[] {
+  return typeof err === 'object' && err !== null ? failureUsage.get(err) ?? [] : [];
+}
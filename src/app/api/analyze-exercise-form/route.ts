@@ -0,0 +1,50 @@
+import { appRoute, NextRequest, NextResponse } from '@genkit-ai/next';
+import type { AnalysisResult } from '@/ai/errors';
+import { streamAnalyzeExerciseFormFlow } from '@/ai/flows/analyze-exercise-form-flow';
+import { MAX_CLIP_BYTES } from '@/ai/frame-validation';
+
+// Streams draft feedback while the model generates, then the final verdict; consumed with streamFlow() in the browser
+const handler = appRoute(streamAnalyzeExerciseFormFlow);
+
+/**
+ * Reads the request body, giving up as soon as it grows past `maxBytes`. Returns null for an oversized body.
+ */
+async function readBody(req: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(req.headers.get('content-length')) > maxBytes) {
+    return null;
+  }
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = req.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// The same limit as the server action's bodySizeLimit, answered like any other rejected input
+export async function POST(req: NextRequest) {
+  const body = await readBody(req, MAX_CLIP_BYTES);
+  if (!body) {
+    const result: AnalysisResult<never> = {
+      ok: false,
+      error: { code: 'invalid_input', message: `Request is larger than ${MAX_CLIP_BYTES} bytes.`, reason: 'clip_too_large' },
+    };
+    if (req.headers.get('accept') !== 'text/event-stream') {
+      return NextResponse.json({ result });
+    }
+    return new NextResponse(`data: ${JSON.stringify({ result })}\n\nEND`, {
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    });
+  }
+  return handler(new NextRequest(req.url, { method: req.method, headers: req.headers, body }));
+}
@@ -2,11 +2,25 @@
 'use client';
 
 import type { ChangeEvent } from 'react';
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { analyzeExerciseForm } from '@/ai/flows/analyze-exercise-form';
-import type { AnalyzeExerciseFormOutput } from '@/ai/flows/analyze-exercise-form';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { AnalyzeExerciseFormOutput, FormFeedbackDraft, SafetyAlert } from '@/ai/flows/analyze-exercise-form';
+import { recognizeExercise, type RecognizeExerciseOutput } from '@/ai/flows/recognize-exercise';
+import { checkFraming } from '@/ai/flows/check-framing';
+import { summarizeSession, type SessionClip, type SummarizeSessionOutput } from '@/ai/flows/summarize-session';
 import CameraFeed from '@/components/camera-feed';
+import CameraSetupAssistant from '@/components/camera-setup-assistant';
+import CoachChatSheet from '@/components/coach-chat-sheet';
+import type { CameraFeedHandle } from '@/components/camera-feed';
 import FeedbackDisplay from '@/components/feedback-display';
+import FramingTips from '@/components/framing-tips';
+import ProfileDialog from '@/components/profile-dialog';
+import RepScorecard from '@/components/rep-scorecard';
+import SafetyInterrupt from '@/components/safety-interrupt';
+import SafetyLog from '@/components/safety-log';
+import SessionSummaryDialog from '@/components/session-summary-dialog';
+import SymmetryReport from '@/components/symmetry-report';
+import TempoFeedback from '@/components/tempo-feedback';
+import UsagePanel from '@/components/usage-panel';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -16,32 +30,439 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2, AlertCircle, Zap, Video, VideoOff, Ban } from 'lucide-react'; // Added Ban
+import { Switch } from '@/components/ui/switch';
+import { Loader2, AlertCircle, Zap, Video, VideoOff, Ban, ScanSearch, MessageCircle, UserRound } from 'lucide-react'; // Added Ban
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Toaster } from '@/components/ui/toaster';
 import { useToast } from '@/hooks/use-toast';
+import { useRepCounter } from '@/hooks/use-rep-counter';
+import { EXERCISES, isExerciseType } from '@/lib/exercises';
+import { DEFAULT_LOCALE, LOCALE_LABELS, SUPPORTED_LOCALES, detectBrowserLocale, isLocale, loadSavedLocale, saveLocale, type Locale } from '@/lib/locales';
+import { assessLighting, measureFrameQuality, type FramingProblem } from '@/lib/frame-quality';
+import {
+  CAMERA_SETUP_GUIDES,
+  DEFAULT_CAMERA_SETUP_GUIDE,
+  isSetupAcceptable,
+  type CameraSetupCheck,
+  type CameraSetupStatus,
+} from '@/lib/camera-setup';
+import { MAX_SAFETY_LOG_ENTRIES, playSafetyAlarm, type SafetyEvent } from '@/lib/safety';
+import { MAX_SESSION_CLIPS } from '@/lib/session';
+import { EMPTY_USER_PROFILE, isProfileEmpty, loadUserProfile, saveUserProfile, type UserProfile } from '@/lib/user-profile';
+import { MAX_USAGE_RECORDS, loadUsageRecords, loadUsageUserId, outcomeUsage, saveUsageRecords, toUsageRecord, type UsageFlow, type UsageRecord } from '@/lib/usage';
+import { REP_PROFILES } from '@/lib/rep-counter';
+import { scoreReps, type AnalysisWindow } from '@/lib/rep-scoring';
+import { buildSymmetryReports, type SideRepTempo, type SymmetryClip } from '@/lib/symmetry';
+import { TEMPO_PRESETS, analyzeTempo, measureRepTempo, parseTempo } from '@/lib/tempo';
+import { AnalysisCache, DEFAULT_ANALYSIS_CACHE_OPTIONS, type AnalysisCacheStats } from '@/lib/analysis-cache';
+import { parseNonNegativeNumber } from '@/lib/utils';
+import { describeAnalysisError, describeRetry, ERROR_POLICIES, MAX_CONSECUTIVE_FAILED_CYCLES, retryDelayMs } from '@/lib/analysis-error-policy';
+import type { AnalysisError } from '@/ai/errors';
+import type { ModelUsage } from '@/ai/usage';
+import { streamFormAnalysis } from '@/lib/stream-form-analysis';
+import {
+  INITIAL_RECOGNITION_TRACKER,
+  RECOGNITION_EVERY_N_CYCLES,
+  mismatchedExercise,
+  shouldAutoSwitch,
+  trackDetection,
+} from '@/lib/exercise-recognition';
 
-const EXERCISES = ['Squat', 'Push-up', 'Lunge', 'Plank', 'Bicep Curl']; // Example exercises
 const ANALYSIS_INTERVAL = 5000; // Analyze every 5 seconds
+const CLIP_DURATION = 3000; // Each analysis looks at a 3 second clip...
+const CLIP_FPS = 3; // ...sampled at 3 frames per second
+// Near-identical clips (e.g. a held Plank) reuse a recent result instead of calling the model again
+const CACHE_MAX_DISTANCE = parseNonNegativeNumber(process.env.NEXT_PUBLIC_ANALYSIS_CACHE_MAX_DISTANCE, DEFAULT_ANALYSIS_CACHE_OPTIONS.maxDistance);
+const CACHE_TTL_MS = parseNonNegativeNumber(process.env.NEXT_PUBLIC_ANALYSIS_CACHE_TTL_MS, DEFAULT_ANALYSIS_CACHE_OPTIONS.ttlMs);
+
+// Lighting is always checked in the browser; the framing flow also checks the user is in shot
+const MODEL_FRAMING_CHECK = process.env.NEXT_PUBLIC_MODEL_FRAMING_CHECK !== 'false';
+const FRAMING_CHECK_EVERY_N_CYCLES = 4; // Once the framing passes, it is only rechecked every Nth clip
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+interface ToastText {
+  title: string;
+  description: string;
+}
+
+interface PageText {
+  profileSaved: ToastText;
+  profileNotSaved: ToastText;
+  setupCaptureFailed: string;
+  setupUnreachable: string;
+  summaryUnreachable: string;
+  selectExercise: ToastText;
+  cameraOff: ToastText;
+  permissionRequired: ToastText;
+  cameraNotReady: ToastText;
+  cameraError: ToastText;
+  checkSetup: ToastText;
+  cameraIssue: ToastText;
+  stoppedAfter: (failures: number) => string;
+  exerciseSwitched: string;
+  exerciseDetected: string;
+  analyzing: (exerciseType: string, percent: number) => string;
+}
+
+const PAGE_TEXT: Record<Locale, PageText> = {
+  en: {
+    profileSaved: { title: "Profile Saved", description: "Feedback will be tailored to your profile from the next clip." },
+    profileNotSaved: {
+      title: "Profile Not Saved",
+      description: "Your browser would not store it, so it applies until you close this page. Feedback will be tailored to it from the next clip.",
+    },
+    setupCaptureFailed: "Could not capture a frame from the camera.",
+    setupUnreachable: "Could not reach the server to check your setup.",
+    summaryUnreachable: "Could not reach the server to write your session report.",
+    selectExercise: { title: "Select Exercise", description: "Please select an exercise, or turn on auto-detect, before starting analysis." },
+    cameraOff: { title: "Camera Off", description: "Please turn the camera on." },
+    permissionRequired: { title: "Permission Required", description: "Camera permission is required or still pending. Please enable it." },
+    cameraNotReady: { title: "Camera Not Ready", description: "The camera is initializing or not ready. Please wait or check hardware." },
+    cameraError: { title: "Camera Error", description: "Camera component is not available." },
+    checkSetup: { title: "Check Camera Setup", description: "Check your camera setup for this exercise, or choose to start without checking." },
+    cameraIssue: { title: "Camera Issue", description: "Camera became unavailable, permission was lost, or it was turned off during analysis." },
+    stoppedAfter: failures => `Analysis has stopped after ${failures} failed attempts in a row.`,
+    exerciseSwitched: "Exercise Switched",
+    exerciseDetected: "Exercise Detected",
+    analyzing: (exerciseType, percent) => `Analyzing ${exerciseType} (${percent}% confident).`,
+  },
+  es: {
+    profileSaved: { title: "Perfil guardado", description: "Las correcciones se adaptarán a tu perfil a partir del siguiente clip." },
+    profileNotSaved: {
+      title: "Perfil no guardado",
+      description: "Tu navegador no permitió guardarlo, así que se aplica hasta que cierres esta página. Las correcciones se adaptarán a él a partir del siguiente clip.",
+    },
+    setupCaptureFailed: "No se pudo capturar una imagen de la cámara.",
+    setupUnreachable: "No se pudo contactar con el servidor para comprobar tu configuración.",
+    summaryUnreachable: "No se pudo contactar con el servidor para redactar el informe de tu sesión.",
+    selectExercise: { title: "Elige un ejercicio", description: "Elige un ejercicio, o activa la detección automática, antes de iniciar el análisis." },
+    cameraOff: { title: "Cámara apagada", description: "Enciende la cámara." },
+    permissionRequired: { title: "Permiso necesario", description: "Se necesita permiso para usar la cámara o aún está pendiente. Actívalo, por favor." },
+    cameraNotReady: { title: "Cámara no lista", description: "La cámara se está iniciando o no está lista. Espera un momento o revisa el dispositivo." },
+    cameraError: { title: "Error de cámara", description: "El componente de la cámara no está disponible." },
+    checkSetup: { title: "Comprueba la cámara", description: "Comprueba la configuración de la cámara para este ejercicio, o elige empezar sin comprobarla." },
+    cameraIssue: { title: "Problema con la cámara", description: "La cámara dejó de estar disponible, se perdió el permiso o se apagó durante el análisis." },
+    stoppedAfter: failures => `El análisis se ha detenido tras ${failures} intentos fallidos seguidos.`,
+    exerciseSwitched: "Ejercicio cambiado",
+    exerciseDetected: "Ejercicio detectado",
+    analyzing: (exerciseType, percent) => `Analizando ${exerciseType} (${percent} % de confianza).`,
+  },
+  de: {
+    profileSaved: { title: "Profil gespeichert", description: "Ab dem nächsten Clip wird das Feedback auf dein Profil abgestimmt." },
+    profileNotSaved: {
+      title: "Profil nicht gespeichert",
+      description: "Dein Browser hat das Speichern verweigert, daher gilt es nur, bis du diese Seite schließt. Ab dem nächsten Clip wird das Feedback darauf abgestimmt.",
+    },
+    setupCaptureFailed: "Es konnte kein Bild von der Kamera aufgenommen werden.",
+    setupUnreachable: "Der Server war nicht erreichbar, um deinen Aufbau zu prüfen.",
+    summaryUnreachable: "Der Server war nicht erreichbar, um deinen Sitzungsbericht zu schreiben.",
+    selectExercise: { title: "Übung wählen", description: "Wähle eine Übung oder schalte die automatische Erkennung ein, bevor du die Analyse startest." },
+    cameraOff: { title: "Kamera aus", description: "Bitte schalte die Kamera ein." },
+    permissionRequired: { title: "Berechtigung erforderlich", description: "Die Kameraberechtigung fehlt oder steht noch aus. Bitte erteile sie." },
+    cameraNotReady: { title: "Kamera nicht bereit", description: "Die Kamera startet noch oder ist nicht bereit. Bitte warte oder prüfe das Gerät." },
+    cameraError: { title: "Kamerafehler", description: "Die Kamerakomponente ist nicht verfügbar." },
+    checkSetup: { title: "Kamera-Aufbau prüfen", description: "Prüfe den Kamera-Aufbau für diese Übung oder starte ohne Prüfung." },
+    cameraIssue: { title: "Kameraproblem", description: "Die Kamera ist während der Analyse ausgefallen, die Berechtigung wurde entzogen oder sie wurde ausgeschaltet." },
+    stoppedAfter: failures => `Die Analyse wurde nach ${failures} fehlgeschlagenen Versuchen in Folge beendet.`,
+    exerciseSwitched: "Übung gewechselt",
+    exerciseDetected: "Übung erkannt",
+    analyzing: (exerciseType, percent) => `Analysiere ${exerciseType} (${percent} % sicher).`,
+  },
+};
 
 export default function Home() {
   const [selectedExercise, setSelectedExercise] = useState<string>('');
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [feedback, setFeedback] = useState<AnalyzeExerciseFormOutput | null>(null);
+  const [draft, setDraft] = useState<FormFeedbackDraft | null>(null); // Partial feedback streamed while a clip is being analyzed
   const [error, setError] = useState<string | null>(null); // Stores general or camera errors
   const [isCameraReady, setIsCameraReady] = useState<boolean>(false);
   const [isCameraOn, setIsCameraOn] = useState<boolean>(false);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null); // Added state for permission
+  const [analysisWindows, setAnalysisWindows] = useState<AnalysisWindow[]>([]); // Analyzed clips of the current set, used to score reps
+  const [cacheStats, setCacheStats] = useState<AnalysisCacheStats>({ hits: 0, misses: 0 });
+  const [autoDetect, setAutoDetect] = useState<boolean>(false); // Let recognition pick and switch the exercise
+  const [recognition, setRecognition] = useState<RecognizeExerciseOutput | null>(null); // Latest exercise recognition result
+  const [isSummaryOpen, setIsSummaryOpen] = useState<boolean>(false);
+  const [isSummaryLoading, setIsSummaryLoading] = useState<boolean>(false);
+  const [summary, setSummary] = useState<SummarizeSessionOutput | null>(null); // End-of-session report
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [isCoachChatOpen, setIsCoachChatOpen] = useState<boolean>(false);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE); // Language the feedback is written in
+  const [profile, setProfile] = useState<UserProfile>(EMPTY_USER_PROFILE); // Tailors feedback to the user
+  const [isProfileOpen, setIsProfileOpen] = useState<boolean>(false);
+  const [safetyEvent, setSafetyEvent] = useState<SafetyEvent | null>(null); // Safety alert currently interrupting the session
+  const [safetyLog, setSafetyLog] = useState<SafetyEvent[]>([]); // Every escalated safety alert, kept apart from the cues
+  const [autoPauseOnSafety, setAutoPauseOnSafety] = useState<boolean>(true);
+  const [isPaused, setIsPaused] = useState<boolean>(false); // Session held by a safety alert until the user continues
+  const [framing, setFraming] = useState<{ problems: FramingProblem[]; missingBodyRegions: string[] } | null>(null); // Failed precheck of the latest clip
+  const [setupStatus, setSetupStatus] = useState<CameraSetupStatus>('unchecked'); // Camera setup step that gates Start
+  const [setupCheck, setSetupCheck] = useState<CameraSetupCheck | null>(null);
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [symmetryClips, setSymmetryClips] = useState<SymmetryClip[]>([]); // The session's analyses, for the live left/right comparison
+  const [sideRepTempos, setSideRepTempos] = useState<SideRepTempo[]>([]); // Tempo of the session's one-sided reps
+  const [tempoNotation, setTempoNotation] = useState<string>(''); // Target tempo for the set, e.g. 3-1-1; empty for none
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[] | null>(null); // Every model call made from this browser; null until loaded
+  const [usageUserId, setUsageUserId] = useState<string>('');
+  const [usageSessionId, setUsageSessionId] = useState<string | null>(null); // The running or last finished session
 
-  const cameraFeedRef = useRef<{ captureFrame: () => Promise<string | null> }>(null);
+  const cameraFeedRef = useRef<CameraFeedHandle>(null);
   const analysisIntervalRef = useRef<NodeJS.Timeout | null>(null);
   // Use a ref to track if analysis *should* be running, independent of async operations
   // Moved this outside of startAnalysis to fix hook call error
   const isAnalyzingRef = useRef(isAnalyzing);
+  const isCycleRunningRef = useRef(false); // True while a clip is being captured or analyzed
+  const consecutiveFailuresRef = useRef(0); // Analysis cycles in a row that ended in an AI error
+  // The interval's closure is created once per session, so it reads the exercise and mode through refs
+  // to pick up switches made by recognition mid-session
+  const selectedExerciseRef = useRef(selectedExercise);
+  const setupCheckIdRef = useRef(0); // Identifies the latest camera setup check, so superseded ones are ignored
+  const autoDetectRef = useRef(autoDetect);
+  const profileRef = useRef(profile); // Profile edits apply from the next clip, even mid-session
+  const autoPauseOnSafetyRef = useRef(autoPauseOnSafety);
+  const isPausedRef = useRef(false);
+  const framingOkRef = useRef(false); // Whether the last framing check passed
+  const safetyEventIdRef = useRef(0);
+  const audioContextRef = useRef<AudioContext | null>(null); // Created on Start, the user gesture browsers require for audio
+  const recognitionTrackerRef = useRef(INITIAL_RECOGNITION_TRACKER);
+  const cycleCountRef = useRef(0);
+  const sessionClipsRef = useRef<SessionClip[]>([]); // The running session's most recent analysis results, for the report
+  const sessionStartRef = useRef(0);
+  const sideRepTemposRef = useRef(new Map<string, SideRepTempo>()); // Keyed by exercise and rep start, across sets
+  const usageUserIdRef = useRef('');
+  const usageSessionIdRef = useRef<string | null>(null); // Calls after a session ends, like its report, still count toward it
+  const analysisCacheRef = useRef(new AnalysisCache<AnalysisWindow>({ // Kept with the clip's span, to retime a reused result
+    ...DEFAULT_ANALYSIS_CACHE_OPTIONS,
+    maxDistance: CACHE_MAX_DISTANCE,
+    ttlMs: CACHE_TTL_MS,
+  }));
   const { toast } = useToast();
 
+  const reps = useRepCounter(cameraFeedRef, selectedExercise, isAnalyzing);
+  const scoredReps = useMemo(() => scoreReps(reps, analysisWindows, ANALYSIS_INTERVAL), [reps, analysisWindows]);
+  const countsReps = isExerciseType(selectedExercise) && REP_PROFILES[selectedExercise] !== null;
+  const tempoTarget = useMemo(() => parseTempo(tempoNotation), [tempoNotation]);
+  const repTempos = useMemo(
+    () => (tempoTarget ? analyzeTempo(reps, selectedExercise, tempoTarget) : []),
+    [reps, selectedExercise, tempoTarget]
+  );
+  const mismatch = mismatchedExercise(selectedExercise, recognition);
+  const setupGuide = isExerciseType(selectedExercise) ? CAMERA_SETUP_GUIDES[selectedExercise] : DEFAULT_CAMERA_SETUP_GUIDE;
+  const isSetupAccepted = setupStatus === 'passed' || setupStatus === 'overridden';
+  const symmetryReports = useMemo(() => buildSymmetryReports(symmetryClips, sideRepTempos), [symmetryClips, sideRepTempos]);
+  // Context for the coach chat: the set's analyses before the latest one
+  const recentFeedback = useMemo(() => analysisWindows.slice(0, -1).map(window => window.result.feedback), [analysisWindows]);
+
+  useEffect(() => {
+    selectedExerciseRef.current = selectedExercise;
+  }, [selectedExercise]);
+
+  // Keeps the tempo of every one-sided rep of the session; a rep's side is known once a clip that saw it is analyzed
+  useEffect(() => {
+    if (!isAnalyzing || !isExerciseType(selectedExercise)) {
+      return;
+    }
+    let changed = false;
+    for (const rep of scoredReps) {
+      const tempo = measureRepTempo(rep, selectedExercise);
+      if (!tempo || (rep.side !== 'left' && rep.side !== 'right')) {
+        continue;
+      }
+      const key = `${selectedExercise}:${rep.startMs}`;
+      if (sideRepTemposRef.current.get(key)?.side !== rep.side) {
+        sideRepTemposRef.current.set(key, { exerciseType: selectedExercise, side: rep.side, tempo });
+        changed = true;
+      }
+    }
+    if (changed) {
+      setSideRepTempos([...sideRepTemposRef.current.values()]);
+    }
+  }, [scoredReps, selectedExercise, isAnalyzing]);
+
+  // A saved choice wins; otherwise follow the browser's language settings
+  useEffect(() => {
+    setLocale(loadSavedLocale() ?? detectBrowserLocale(navigator.languages));
+  }, []);
+
+  useEffect(() => {
+    setProfile(loadUserProfile());
+  }, []);
+
+  useEffect(() => {
+    usageUserIdRef.current = loadUsageUserId();
+    setUsageUserId(usageUserIdRef.current);
+    setUsageRecords(loadUsageRecords());
+  }, []);
+
+  // Saved on every change once loaded, so the empty initial ledger never overwrites the stored one
+  useEffect(() => {
+    if (usageRecords) {
+      saveUsageRecords(usageRecords);
+    }
+  }, [usageRecords]);
+
+  // Adds a flow's model attempts to the usage ledger, under the running (or last finished) session
+  const recordUsage = useCallback((flow: UsageFlow, usage: ModelUsage[]) => {
+    if (usage.length === 0) {
+      return;
+    }
+    const records = usage.map(attempt => toUsageRecord(attempt, flow, usageUserIdRef.current, usageSessionIdRef.current));
+    setUsageRecords(previous => [...(previous ?? []), ...records].slice(-MAX_USAGE_RECORDS));
+  }, []);
+  useEffect(() => {
+    profileRef.current = profile;
+  }, [profile]);
+
+  const handleProfileSave = useCallback((updated: UserProfile) => {
+    setProfile(updated);
+    const saved = saveUserProfile(updated);
+    analysisCacheRef.current.clear(); // Cached results were tailored to the old profile
+    const text = PAGE_TEXT[locale];
+    toast(saved ? text.profileSaved : { ...text.profileNotSaved, variant: "destructive" });
+  }, [locale, toast]);
+
+  const handleLocaleChange = useCallback((value: string) => {
+    if (!isLocale(value)) {
+      return;
+    }
+    setLocale(value);
+    saveLocale(value);
+    analysisCacheRef.current.clear(); // Cached results are in the previous language
+  }, []);
+  useEffect(() => {
+    autoDetectRef.current = autoDetect;
+  }, [autoDetect]);
+  useEffect(() => {
+    autoPauseOnSafetyRef.current = autoPauseOnSafety;
+  }, [autoPauseOnSafety]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    isPausedRef.current = paused;
+    setIsPaused(paused);
+  }, []);
+
+  // Interrupts the session for the most likely of a clip's safety alerts and logs all of them
+  const escalateSafetyAlerts = useCallback((alerts: SafetyAlert[], exerciseType: string, alertLocale: Locale) => {
+    const paused = autoPauseOnSafetyRef.current;
+    const events = [...alerts]
+      .sort((a, b) => b.confidence - a.confidence)
+      .map((alert): SafetyEvent => ({ id: ++safetyEventIdRef.current, timestampMs: Date.now(), exerciseType, alert, paused, locale: alertLocale }));
+    console.warn("Safety alert:", events);
+    setSafetyLog(previous => [...previous, ...events].slice(-MAX_SAFETY_LOG_ENTRIES));
+    setSafetyEvent(events[0]);
+    if (paused) {
+      setPaused(true);
+    }
+    if (audioContextRef.current) {
+      playSafetyAlarm(audioContextRef.current);
+    }
+  }, [setPaused]);
+
+
+  // Changes the exercise without stopping a running session; the rep counter restarts for the new exercise
+  // A different exercise or a restarted camera needs its setup checked again
+  const resetCameraSetup = useCallback(() => {
+    setupCheckIdRef.current++; // A check still running is for the old setup; its result is dropped
+    setSetupStatus('unchecked');
+    setSetupCheck(null);
+    setSetupError(null);
+  }, []);
+
+  const switchExercise = useCallback((exercise: string) => {
+    selectedExerciseRef.current = exercise;
+    setSelectedExercise(exercise);
+    setFeedback(null);
+    setAnalysisWindows([]);
+    // The setup verdict and framing checks were for the previous exercise's framing rules
+    resetCameraSetup();
+    framingOkRef.current = false;
+    setFraming(null);
+  }, [resetCameraSetup]);
+
+  // Checks a live frame against the recommended setup: lighting in the browser, then angle and framing with the model
+  const checkCameraSetup = useCallback(async () => {
+    const camera = cameraFeedRef.current;
+    if (!camera) {
+      return;
+    }
+    const checkId = ++setupCheckIdRef.current;
+    const exerciseType = selectedExercise;
+    // The exercise changed or the camera was turned off while the check ran
+    const isStale = () => checkId !== setupCheckIdRef.current || selectedExerciseRef.current !== exerciseType;
+    const fail = (message: string) => {
+      setSetupCheck(null);
+      setSetupError(message);
+      setSetupStatus('failed');
+    };
+    setSetupStatus('checking');
+    setSetupError(null);
+    try {
+      const luma = camera.sampleLuma();
+      let check: CameraSetupCheck = {
+        view: null,
+        problems: assessLighting([luma ? measureFrameQuality(luma) : undefined]),
+        missingBodyRegions: [],
+      };
+      if (check.problems.length === 0 && MODEL_FRAMING_CHECK) {
+        const dataUri = await camera.captureFrame();
+        if (isStale()) {
+          return;
+        }
+        if (!dataUri) {
+          fail(PAGE_TEXT[locale].setupCaptureFailed);
+          return;
+        }
+        const outcome = await checkFraming({ frame: { dataUri, timestampMs: Date.now() }, exerciseType });
+        recordUsage('checkFraming', outcomeUsage(outcome));
+        if (isStale()) {
+          console.log("Camera setup changed during the check, discarding its result.");
+          return;
+        }
+        if (!outcome.ok) {
+          console.error(`Camera setup check failed (${outcome.error.code}):`, outcome.error.message);
+          fail(describeAnalysisError(outcome.error, locale).description);
+          return;
+        }
+        const { view, problems, missingBodyRegions } = outcome.result;
+        check = { view, problems, missingBodyRegions };
+      }
+      setSetupCheck(check);
+      setSetupStatus(isSetupAcceptable(setupGuide, check) ? 'passed' : 'failed');
+    } catch (err) {
+      console.error('Error checking camera setup:', err);
+      if (!isStale()) {
+        fail(PAGE_TEXT[locale].setupUnreachable);
+      }
+    }
+  }, [selectedExercise, setupGuide, locale, recordUsage]);
+
+  // Summarizes a finished session into the report dialog
+  const summarizeFinishedSession = useCallback(async (clips: SessionClip[], repTempos: SideRepTempo[], durationSeconds: number) => {
+    setSummary(null);
+    setSummaryError(null);
+    setIsSummaryLoading(true);
+    setIsSummaryOpen(true);
+    try {
+      const outcome = await summarizeSession({ clips, repTempos, durationSeconds, locale });
+      recordUsage('summarizeSession', outcomeUsage(outcome));
+      if (outcome.ok) {
+        setSummary(outcome.result);
+      } else {
+        console.error(`Session summary failed (${outcome.error.code}):`, outcome.error.message);
+        setSummaryError(describeAnalysisError(outcome.error, locale).description);
+      }
+    } catch (err) {
+      console.error('Error summarizing session:', err);
+      setSummaryError(PAGE_TEXT[locale].summaryUnreachable);
+    } finally {
+      setIsSummaryLoading(false);
+    }
+  }, [locale, recordUsage]);
+
    // Define stopAnalysis first as other callbacks depend on it
   const stopAnalysis = useCallback(() => {
     // Clear the interval if it exists
@@ -54,10 +475,22 @@ export default function Home() {
     setIsAnalyzing(false);
     setIsLoading(false);
     isAnalyzingRef.current = false; // Update the ref when stopping
+    setPaused(false);
     console.log("Analysis stopped.");
     // Optional: Clear feedback when stopping analysis?
     // setFeedback(null);
-  }, []); // Dependency: isAnalyzingRef (setter is stable, but good practice)
+
+    // Hand the session's results to the report; emptying the ref makes repeated stops a no-op
+    const clips = sessionClipsRef.current;
+    sessionClipsRef.current = [];
+    if (clips.length > 0) {
+      summarizeFinishedSession(
+        clips,
+        [...sideRepTemposRef.current.values()],
+        Math.round((Date.now() - sessionStartRef.current) / 1000)
+      );
+    }
+  }, [summarizeFinishedSession, setPaused]);
 
   // Define handleCameraReady next
   const handleCameraReady = useCallback((ready: boolean, permissionGranted: boolean | null, cameraError?: string | null) => {
@@ -90,6 +523,7 @@ export default function Home() {
 
     if (!turningOn) {
       stopAnalysis(); // Stop analysis if camera is manually turned off
+      resetCameraSetup();
       // Optionally clear specific errors when turning off, or leave them if they are persistent hardware issues.
       // setError(null) // Example: If you want to clear errors on manual turn-off
     } else {
@@ -101,56 +535,73 @@ export default function Home() {
       // CameraFeed component's useEffect triggered by `isActive={true}` will now attempt to start
       // and the `onReady` callback (handleCameraReady) will handle success/failure/permission updates.
     }
-  }, [isCameraOn, stopAnalysis, hasCameraPermission]);
+  }, [isCameraOn, stopAnalysis, hasCameraPermission, resetCameraSetup]);
 
 
   // Define startAnalysis last
   const startAnalysis = useCallback(async () => {
     setError(null); // Clear previous analysis errors before starting
+    const text = PAGE_TEXT[locale];
 
-    if (!selectedExercise) {
-      toast({
-        title: "Select Exercise",
-        description: "Please select an exercise before starting analysis.",
-        variant: "default",
-      });
+    if (!selectedExercise && !autoDetect) {
+      toast({ ...text.selectExercise, variant: "default" });
       return;
     }
      if (!isCameraOn) {
-      toast({
-        title: "Camera Off",
-        description: "Please turn the camera on.",
-        variant: "default",
-      });
+      toast({ ...text.cameraOff, variant: "default" });
       return;
     }
      if (hasCameraPermission !== true) { // Strict check for granted permission
         toast({
-            title: "Permission Required",
-            description: error || "Camera permission is required or still pending. Please enable it.",
+            title: text.permissionRequired.title,
+            description: error || text.permissionRequired.description,
             variant: "destructive",
         });
         return;
      }
     if (!isCameraReady) { // Check if camera hardware/stream is actually ready
        toast({
-        title: "Camera Not Ready",
-        description: error || "The camera is initializing or not ready. Please wait or check hardware.",
+        title: text.cameraNotReady.title,
+        description: error || text.cameraNotReady.description,
         variant: "destructive",
       });
       return;
     }
     if (!cameraFeedRef.current) {
-        toast({
-          title: "Camera Error",
-          description: "Camera component is not available.",
-          variant: "destructive",
-        });
+        toast({ ...text.cameraError, variant: "destructive" });
         return;
     }
+    if (!isSetupAccepted) {
+      toast({ ...text.checkSetup, variant: "default" });
+      return;
+    }
 
 
     setFeedback(null);
+    setAnalysisWindows([]); // Start a new set
+    consecutiveFailuresRef.current = 0;
+    cycleCountRef.current = 0;
+    framingOkRef.current = false;
+    setFraming(null);
+    sessionClipsRef.current = [];
+    sessionStartRef.current = Date.now();
+    usageSessionIdRef.current = crypto.randomUUID();
+    setUsageSessionId(usageSessionIdRef.current);
+    sideRepTemposRef.current.clear();
+    setSymmetryClips([]);
+    setSideRepTempos([]);
+    setPaused(false);
+    // Start is a user gesture, so the safety alarm is allowed to play later in the session
+    try {
+      audioContextRef.current ??= new AudioContext();
+      audioContextRef.current.resume().catch(err => {
+        console.warn("Web Audio is unavailable; safety alerts will be silent.", err);
+      });
+    } catch (err) {
+      console.warn("Web Audio is unavailable; safety alerts will be silent.", err);
+    }
+    recognitionTrackerRef.current = INITIAL_RECOGNITION_TRACKER;
+    setRecognition(null);
     setIsLoading(true); // Set loading true at the start
     setIsAnalyzing(true);
     isAnalyzingRef.current = true; // Set the ref to true when starting
@@ -172,58 +623,209 @@ export default function Home() {
         }
          if (!cameraFeedRef.current || !isCameraOn || !isCameraReady || hasCameraPermission !== true) {
             console.log("Camera became unavailable, lost permission, or turned off during analysis.");
-            const currentError = error || "Camera became unavailable, permission was lost, or it was turned off during analysis.";
+            const currentError = error || text.cameraIssue.description;
             setError(currentError);
             stopAnalysis(); // Stop analysis if camera state changes unfavorably
             toast({
-                title: "Camera Issue",
+                title: text.cameraIssue.title,
                 description: currentError,
                 variant: "destructive"
             });
             return;
         };
 
+        if (isPausedRef.current) {
+            console.log("Session paused for a safety alert, skipping this tick.");
+            return;
+        }
+
+        // Capturing a clip takes a few seconds; don't let interval ticks overlap a cycle still in flight
+        if (isCycleRunningRef.current) {
+            console.log("Previous analysis cycle still running, skipping this tick.");
+            return;
+        }
+        isCycleRunningRef.current = true;
+
+        // Applies the error's policy once any retries are used up: stop the session, or skip this clip
+        // unless too many cycles in a row have failed.
+        const handleAnalysisError = (analysisError: AnalysisError) => {
+            if (!isAnalyzingRef.current) {
+                console.log(`AI error (${analysisError.code}) occurred after analysis stopped.`);
+                return;
+            }
+            const policy = ERROR_POLICIES[analysisError.code];
+            const { title, description } = describeAnalysisError(analysisError, locale);
+            consecutiveFailuresRef.current += 1;
+            if (policy.action === 'stop' || consecutiveFailuresRef.current >= MAX_CONSECUTIVE_FAILED_CYCLES) {
+                const stopDescription = policy.action === 'stop'
+                    ? description
+                    : `${description} ${text.stoppedAfter(consecutiveFailuresRef.current)}`;
+                setError(`${title}: ${stopDescription}`);
+                setFeedback(null); // Clear feedback on error
+                toast({ title, description: stopDescription, variant: "destructive" });
+                stopAnalysis();
+            } else {
+                toast({ title, description });
+            }
+        };
+
         try {
-            console.log("Attempting to capture frame...");
-            const videoDataUri = await cameraFeedRef.current.captureFrame();
-            console.log("Frame captured:", videoDataUri ? `Data URI (${videoDataUri.length} chars)` : "null");
-
-            if (videoDataUri) {
-                 console.log("Sending frame to AI for analysis...");
-                const result = await analyzeExerciseForm({
-                    videoDataUri: videoDataUri,
-                    exerciseType: selectedExercise,
-                });
+            console.log("Attempting to capture clip...");
+            const frames = await cameraFeedRef.current.captureClip({ durationMs: CLIP_DURATION, fps: CLIP_FPS });
+            console.log("Clip captured:", frames ? `${frames.length} frames` : "null");
+
+            if (frames) {
+                const cycle = cycleCountRef.current++;
+
+                // Precheck: a clip the user can't be seen clearly in gets framing tips instead of form feedback
+                let framingProblems = assessLighting(frames.map(frame => frame.quality));
+                let missingBodyRegions: string[] = [];
+                if (framingProblems.length > 0) {
+                    framingOkRef.current = false;
+                } else if (MODEL_FRAMING_CHECK && (!framingOkRef.current || cycle % FRAMING_CHECK_EVERY_N_CYCLES === 0)) {
+                    const { dataUri, timestampMs } = frames[Math.floor(frames.length / 2)];
+                    const framingOutcome = await checkFraming({ frame: { dataUri, timestampMs }, exerciseType: selectedExerciseRef.current });
+                    recordUsage('checkFraming', outcomeUsage(framingOutcome));
+                    if (framingOutcome.ok) {
+                        framingProblems = framingOutcome.result.problems;
+                        missingBodyRegions = framingOutcome.result.missingBodyRegions;
+                        framingOkRef.current = framingProblems.length === 0;
+                    } else {
+                        // The check only advises; analyze the clip rather than let its failure block the session
+                        console.warn(`Framing check failed (${framingOutcome.error.code}):`, framingOutcome.error.message);
+                    }
+                }
+                if (framingProblems.length > 0) {
+                    console.log("Clip failed the framing precheck, skipping analysis:", framingProblems);
+                    if (isAnalyzingRef.current) {
+                        setFraming({ problems: framingProblems, missingBodyRegions });
+                    }
+                    return;
+                }
+                setFraming(null);
+
+                // Periodically check which exercise is on camera; every clip while none is known yet
+                if (!selectedExerciseRef.current || cycle % RECOGNITION_EVERY_N_CYCLES === 0) {
+                    const recognized = recognizeExercise({ frames }).then(outcome => {
+                        recordUsage('recognizeExercise', outcomeUsage(outcome));
+                        if (!outcome.ok) {
+                            console.warn(`Exercise recognition failed (${outcome.error.code}):`, outcome.error.message);
+                            return;
+                        }
+                        if (!isAnalyzingRef.current) {
+                            return;
+                        }
+                        console.log("Exercise recognition:", outcome.result);
+                        setRecognition(outcome.result);
+                        recognitionTrackerRef.current = trackDetection(recognitionTrackerRef.current, outcome.result);
+                        const next = autoDetectRef.current ? shouldAutoSwitch(selectedExerciseRef.current, recognitionTrackerRef.current) : null;
+                        if (next) {
+                            toast({
+                                title: selectedExerciseRef.current ? text.exerciseSwitched : text.exerciseDetected,
+                                description: text.analyzing(next, Math.round(outcome.result.confidence * 100)),
+                            });
+                            switchExercise(next);
+                        }
+                    }).catch(err => {
+                        // The server action itself failed; recognition only advises, so the session carries on
+                        console.warn('Exercise recognition failed:', err);
+                    });
+                    // Without an exercise there is nothing to analyze against until recognition settles it
+                    if (!selectedExerciseRef.current) {
+                        await recognized;
+                    }
+                }
+                const exerciseType = selectedExerciseRef.current;
+                if (!exerciseType) {
+                    console.log("Exercise not recognized yet, skipping analysis for this clip.");
+                    return;
+                }
+
+                // Only clips with a hash for every frame can be matched against the cache
+                const frameHashes = frames.every(frame => frame.perceptualHash) ? frames.map(frame => frame.perceptualHash!) : [];
+                const cached = frameHashes.length > 0 ? analysisCacheRef.current.lookup(exerciseType, frameHashes) : null;
+                setCacheStats(analysisCacheRef.current.getStats());
+
+                let result: AnalyzeExerciseFormOutput;
+                if (cached) {
+                    console.log("Scene unchanged since a recent clip, reusing its analysis.");
+                    // Its readings are moved onto this clip's frames, so they attach to the reps done during this clip
+                    const shiftMs = frames[0].timestampMs - cached.startMs;
+                    result = {
+                        ...cached.result,
+                        rangeOfMotion: cached.result.rangeOfMotion.map(reading => ({ ...reading, timestampMs: reading.timestampMs + shiftMs })),
+                    };
+                } else {
+                    console.log("Sending clip to AI for analysis...");
+                    // Partial cues are shown as they stream in; the final verdict below replaces them
+                    const requestAnalysis = async () => {
+                        const outcome = await streamFormAnalysis({ frames, exerciseType, locale, profile: profileRef.current }, partial => {
+                            if (isAnalyzingRef.current) {
+                                setDraft(partial);
+                            }
+                        });
+                        recordUsage('analyzeExerciseForm', outcomeUsage(outcome)); // Retried attempts count too; cache hits cost nothing
+                        return outcome;
+                    };
+                    let outcome = await requestAnalysis();
+                    for (let attempt = 0; !outcome.ok && isAnalyzingRef.current; attempt++) {
+                        const policy = ERROR_POLICIES[outcome.error.code];
+                        if (policy.action !== 'retry' || attempt >= policy.maxRetries) {
+                            break;
+                        }
+                        const delayMs = retryDelayMs(policy, attempt, outcome.error);
+                        console.warn(`AI error (${outcome.error.code}): ${outcome.error.message}. Retry ${attempt + 1}/${policy.maxRetries} in ${delayMs}ms.`);
+                        if (attempt === 0) {
+                            toast(describeRetry(outcome.error, locale));
+                        }
+                        setDraft(null); // Drop the failed attempt's partial output
+                        await wait(delayMs);
+                        outcome = await requestAnalysis();
+                    }
+                    if (!outcome.ok) {
+                        console.error(`AI analysis failed (${outcome.error.code}):`, outcome.error.message);
+                        handleAnalysisError(outcome.error);
+                        return;
+                    }
+                    result = outcome.result;
+                    analysisCacheRef.current.store(exerciseType, frameHashes, {
+                        startMs: frames[0].timestampMs,
+                        endMs: frames[frames.length - 1].timestampMs,
+                        result,
+                    });
+                }
                 console.log("AI Analysis Result:", result);
+                consecutiveFailuresRef.current = 0;
                  // Only update state if analysis is still supposed to be running (check ref)
                  if (isAnalyzingRef.current) {
+                    // A reused result still counts as a clip of the session, e.g. most of a long Plank hold
                     setFeedback(result);
+                    sessionClipsRef.current = [...sessionClipsRef.current, { ...result, exerciseType }].slice(-MAX_SESSION_CLIPS);
+                    setSymmetryClips(previous => [...previous, { ...result, exerciseType }]);
+                    // The earlier clip already escalated its alerts
+                    if (!cached && result.safetyAlerts.length > 0) {
+                        escalateSafetyAlerts(result.safetyAlerts, exerciseType, result.locale);
+                    }
+                    setAnalysisWindows(previous => [
+                        ...previous,
+                        { startMs: frames[0].timestampMs, endMs: frames[frames.length - 1].timestampMs, result },
+                    ]);
                     setError(null); // Clear previous analysis errors on success
                  } else {
                     console.log("Analysis stopped before AI result arrived.");
                  }
             } else {
-                 console.warn("Failed to capture frame. Skipping this analysis cycle.");
+                 console.warn("Failed to capture clip. Skipping this analysis cycle.");
                  // Consider adding a toast notification here if it happens repeatedly.
                  // toast({ title: "Warning", description: "Could not capture frame.", variant: "default" });
             }
         } catch (err) {
+            // The server action itself failed (e.g. the network dropped); the flow reports its own errors as results
             console.error('Error during AI analysis:', err);
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during analysis.';
-             // Only update state if analysis is still supposed to be running (check ref)
-            if (isAnalyzingRef.current) {
-                setError(`AI Error: ${errorMessage}`); // Prefix AI errors
-                setFeedback(null); // Clear feedback on error
-                toast({
-                    title: "Analysis Error",
-                    description: errorMessage,
-                    variant: "destructive",
-                  });
-                stopAnalysis(); // Stop analysis completely on AI error
-            } else {
-                console.log("AI Error occurred after analysis stopped.");
-            }
+            handleAnalysisError({ code: 'unknown', message: err instanceof Error ? err.message : String(err) });
         } finally {
+             isCycleRunningRef.current = false;
+             setDraft(null);
              // Ensure loading state is correctly managed, especially for the first analysis run.
              // The logic below handles setting isLoading=false after the first run.
         }
@@ -257,7 +859,7 @@ export default function Home() {
          console.log("Analysis was stopped during initial run, interval not started.");
     }
 
-  }, [selectedExercise, isCameraReady, isCameraOn, hasCameraPermission, toast, stopAnalysis, error ]); // Dependencies
+  }, [selectedExercise, autoDetect, locale, isSetupAccepted, isCameraReady, isCameraOn, hasCameraPermission, toast, stopAnalysis, switchExercise, escalateSafetyAlerts, setPaused, recordUsage, error ]); // Dependencies
 
    // Effect to sync the ref when the isAnalyzing state changes
    useEffect(() => {
@@ -274,13 +876,14 @@ export default function Home() {
     // Cleanup interval on component unmount
     return () => {
         isAnalyzingRef.current = false; // Mark as not analyzing
+        sessionClipsRef.current = []; // Nobody is left to read a report
         stopAnalysis(); // Use stopAnalysis for cleanup
     };
   }, [stopAnalysis]); // Add stopAnalysis to dependency array
 
   // Recalculate if start button should be disabled
   // Needs exercise selected, camera ON, camera READY, permission GRANTED, and not already loading/analyzing.
-  const isStartDisabled = !selectedExercise || !isCameraOn || !isCameraReady || hasCameraPermission !== true || isLoading || isAnalyzing ;
+  const isStartDisabled = (!selectedExercise && !autoDetect) || !isCameraOn || !isCameraReady || hasCameraPermission !== true || !isSetupAccepted || isLoading || isAnalyzing ;
 
 
   return (
@@ -298,6 +901,8 @@ export default function Home() {
               onValueChange={(value) => {
                  setSelectedExercise(value);
                  setFeedback(null); // Clear feedback when changing exercise
+                 setAnalysisWindows([]);
+                 resetCameraSetup(); // The recommended angle depends on the exercise
                  if (isAnalyzing) {
                     stopAnalysis(); // Stop analysis if exercise changes while running
                  }
@@ -315,6 +920,77 @@ export default function Home() {
                 ))}
               </SelectContent>
             </Select>
+            <div className="flex items-center justify-between mt-3">
+              <Label htmlFor="auto-detect" className="text-sm font-normal">Auto-detect exercise</Label>
+              <Switch
+                id="auto-detect"
+                checked={autoDetect}
+                onCheckedChange={setAutoDetect}
+              />
+            </div>
+            <div className="flex items-center justify-between mt-3">
+              <Label htmlFor="auto-pause-safety" className="text-sm font-normal">Pause on safety alerts</Label>
+              <Switch
+                id="auto-pause-safety"
+                checked={autoPauseOnSafety}
+                onCheckedChange={setAutoPauseOnSafety}
+              />
+            </div>
+            {recognition?.exerciseType && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Detected: {recognition.exerciseType} ({Math.round(recognition.confidence * 100)}%)
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="tempo-input" className="text-sm font-semibold mb-2 block">Target Tempo</Label>
+            <Input
+              id="tempo-input"
+              value={tempoNotation}
+              onChange={(event: ChangeEvent<HTMLInputElement>) => setTempoNotation(event.target.value)}
+              placeholder="Optional, e.g. 3-1-1"
+              disabled={isAnalyzing || isLoading} // The target is chosen for the whole set
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {TEMPO_PRESETS.map((preset) => (
+                <Button
+                  key={preset}
+                  size="sm"
+                  variant={tempoTarget?.notation === preset ? 'secondary' : 'outline'}
+                  className="h-7 px-2 font-mono text-xs"
+                  onClick={() => setTempoNotation(tempoTarget?.notation === preset ? '' : preset)}
+                  disabled={isAnalyzing || isLoading}
+                >
+                  {preset}
+                </Button>
+              ))}
+            </div>
+            {tempoNotation.trim() && !tempoTarget && (
+              <p className="text-xs text-destructive mt-1">
+                Use seconds down, pause and up, like 3-1-1. An X for the last number means as fast as possible.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="locale-select" className="text-sm font-semibold mb-2 block">Feedback Language</Label>
+            <Select
+              value={locale}
+              onValueChange={handleLocaleChange}
+              disabled={isAnalyzing || isLoading} // The language is fixed for a session
+            >
+              <SelectTrigger id="locale-select" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {LOCALE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           <Button
@@ -350,12 +1026,21 @@ export default function Home() {
                isStartDisabled && hasCameraPermission === false ? 'Permission Denied' :
                isStartDisabled && !isCameraReady && isCameraOn ? 'Camera Not Ready' :
                isStartDisabled && !isCameraOn ? 'Camera Off' :
-               isStartDisabled && !selectedExercise ? 'Select Exercise' :
+               isStartDisabled && !selectedExercise && !autoDetect ? 'Select Exercise' :
+               isStartDisabled && !isSetupAccepted ? 'Check Camera Setup' :
                'Start Analysis'
               }
             </Button>
           )}
 
+          <Button onClick={() => setIsProfileOpen(true)} variant="outline" className="w-full">
+            <UserRound className="mr-2 h-4 w-4" /> {isProfileEmpty(profile) ? 'Set Up Your Profile' : 'Edit Your Profile'}
+          </Button>
+
+          <Button onClick={() => setIsCoachChatOpen(true)} variant="outline" className="w-full">
+            <MessageCircle className="mr-2 h-4 w-4" /> Ask the Coach
+          </Button>
+
             {/* General Error Alert - Show if there's an error */}
             {/* Keep showing camera/permission errors even if trying to analyze */}
             {error && (
@@ -401,7 +1086,7 @@ export default function Home() {
                      </svg>
                       <AlertTitle>Select Exercise</AlertTitle>
                       <AlertDescription>
-                          Choose an exercise from the sidebar.
+                          {autoDetect ? 'Start analysis and the exercise will be detected from the camera.' : 'Choose an exercise from the sidebar, or turn on auto-detect.'}
                       </AlertDescription>
                   </Alert>
                )}
@@ -430,7 +1115,8 @@ export default function Home() {
                 hasCameraPermission === false ? 'Camera Feed (Permission Denied)' :
                 hasCameraPermission === null ? 'Camera Feed (Waiting for Permission)' :
                 !isCameraReady ? 'Camera Feed (Initializing)' :
-                isAnalyzing ? `Analyzing: ${selectedExercise}` :
+                isAnalyzing && isPaused ? 'Paused for Safety' :
+                isAnalyzing ? `Analyzing: ${selectedExercise || 'Detecting exercise...'}` :
                 selectedExercise ? `Ready for: ${selectedExercise}` :
                 'Camera Feed (Select Exercise)'
                }
@@ -444,23 +1130,63 @@ export default function Home() {
                   onReady={handleCameraReady} // Pass the callback
                   isActive={isCameraOn}      // Control activation based on user toggle
                 />
-                {/* Loading overlay for *initial* analysis phase (when isLoading is true) */}
-                {/* Show only if camera is on, ready, permission granted, and we are in the initial loading phase */}
+                {/* Non-blocking indicator for the first analysis cycle; feedback streams in below the feed */}
                  {isCameraOn && isCameraReady && hasCameraPermission === true && isLoading && (
-                    <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center text-white z-20 rounded-md">
-                        <Loader2 className="h-12 w-12 animate-spin mb-2" />
-                        <p>Initializing Analysis...</p>
+                    <div className="absolute top-3 left-3 z-20 flex items-center rounded-full bg-black/60 px-3 py-1 text-sm text-white pointer-events-none">
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                        Analyzing first clip...
                     </div>
                  )}
              </div>
 
+            {/* Recognition disagrees with the manually selected exercise; auto-detect switches on its own instead */}
+            {mismatch && !autoDetect && isAnalyzing && (
+                 <Alert variant="default" className="w-full border-yellow-500/50">
+                     <ScanSearch className="h-4 w-4 text-yellow-600" />
+                     <AlertTitle>Different Exercise Detected</AlertTitle>
+                     <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                         <span>
+                             This looks like a {mismatch} ({Math.round((recognition?.confidence ?? 0) * 100)}% confident), not a {selectedExercise}.
+                         </span>
+                         <Button size="sm" variant="outline" onClick={() => switchExercise(mismatch)}>
+                             Switch to {mismatch}
+                         </Button>
+                     </AlertDescription>
+                 </Alert>
+            )}
+
             {/* Display feedback if available and analysis was successful (no current error) */}
-            {feedback && !error && (
-                 <FeedbackDisplay feedback={feedback} />
+            {framing && !error ? (
+                 <FramingTips problems={framing.problems} missingBodyRegions={framing.missingBodyRegions} locale={locale} />
+            ) : (feedback || draft) && !error && (
+                 <FeedbackDisplay feedback={feedback} draft={draft} locale={locale} />
+            )}
+
+            {/* Tempo cues next to the form feedback, measured from the rep counter's phase timestamps */}
+            {tempoTarget && countsReps && (isAnalyzing || reps.length > 0) && (
+                 <TempoFeedback exerciseType={selectedExercise} target={tempoTarget} tempos={repTempos} locale={locale} />
             )}
 
+            {/* Rep count and per-rep scorecard for the current (or just finished) set */}
+            {selectedExercise && (isAnalyzing || reps.length > 0) && (
+                 <RepScorecard reps={scoredReps} countsReps={countsReps} tempos={tempoTarget ? repTempos : undefined} locale={locale} />
+            )}
+
+            {/* Left vs right over the whole session, for one-sided movements and uneven sides */}
+            <SymmetryReport reports={symmetryReports} locale={locale} />
+
+            <SafetyLog events={safetyLog} locale={locale} />
+
+            {cacheStats.hits + cacheStats.misses > 0 && (
+                 <p className="w-full text-right text-xs text-muted-foreground">
+                     Result cache: {cacheStats.hits} {cacheStats.hits === 1 ? 'hit' : 'hits'}, {cacheStats.misses} {cacheStats.misses === 1 ? 'miss' : 'misses'}
+                 </p>
+            )}
+
+            <UsagePanel records={usageRecords ?? []} userId={usageUserId} sessionId={usageSessionId} locale={locale} />
+
             {/* Status messages shown *during* analysis or when ready */}
-             {isAnalyzing && !isLoading && !error && ( // Show when actively analyzing (after initial load) and no error
+             {isAnalyzing && !isPaused && !isLoading && !error && ( // Show when actively analyzing (after initial load) and no error
                  <Alert variant="default" className="w-full">
                      <Zap className="h-4 w-4 text-accent" />
                      <AlertTitle>Analysis Running</AlertTitle>
@@ -470,7 +1196,20 @@ export default function Home() {
                      </AlertDescription>
                  </Alert>
             )}
-             {!isAnalyzing && !isLoading && !error && selectedExercise && isCameraOn && isCameraReady && hasCameraPermission === true && ( // Ready state
+             {/* Setup step before analysis: recommended angle and distance, checked against a live frame */}
+             {!isAnalyzing && !isLoading && (selectedExercise || autoDetect) && isCameraOn && isCameraReady && hasCameraPermission === true && (
+                 <CameraSetupAssistant
+                     exerciseType={selectedExercise}
+                     guide={setupGuide}
+                     status={setupStatus}
+                     check={setupCheck}
+                     error={setupError}
+                     onCheck={checkCameraSetup}
+                     onOverride={() => setSetupStatus('overridden')}
+                     locale={locale}
+                 />
+             )}
+             {!isAnalyzing && !isLoading && !error && selectedExercise && isSetupAccepted && isCameraOn && isCameraReady && hasCameraPermission === true && ( // Ready state
                  <Alert variant="default" className="w-full border-green-500/50">
                      <Zap className="h-4 w-4 text-green-600" />
                      <AlertTitle>Ready to Analyze</AlertTitle>
@@ -483,6 +1222,42 @@ export default function Home() {
           </CardContent>
         </Card>
       </main>
+       <CoachChatSheet
+         open={isCoachChatOpen}
+         onOpenChange={setIsCoachChatOpen}
+         exerciseType={selectedExercise}
+         latestFeedback={feedback}
+         recentFeedback={recentFeedback}
+         profile={profile}
+         locale={locale}
+         onUsage={usage => recordUsage('askCoach', usage)}
+       />
+       <ProfileDialog
+         open={isProfileOpen}
+         onOpenChange={setIsProfileOpen}
+         profile={profile}
+         onSave={handleProfileSave}
+         locale={locale}
+       />
+       <SafetyInterrupt
+         event={safetyEvent}
+         onContinue={() => {
+           setSafetyEvent(null);
+           setPaused(false);
+         }}
+         onEndSession={() => {
+           setSafetyEvent(null);
+           stopAnalysis();
+         }}
+       />
+       <SessionSummaryDialog
+         open={isSummaryOpen}
+         onOpenChange={setIsSummaryOpen}
+         report={summary}
+         isLoading={isSummaryLoading}
+         error={summaryError}
+         locale={locale}
+       />
        <Toaster />
     </div>
   );
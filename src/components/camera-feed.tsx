@@ -2,19 +2,45 @@
 
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle, useCallback } from 'react';
 import { Video, AlertTriangle, Ban } from 'lucide-react'; // Added Ban icon
+import { measureFrameQuality, type FrameQualityStats } from '@/lib/frame-quality';
+import { toLuma, type LumaFrame } from '@/lib/luma';
+import { differenceHash } from '@/lib/perceptual-hash';
 
 interface CameraFeedProps {
   onReady: (ready: boolean, permissionGranted: boolean | null, error?: string | null) => void; // Updated signature
   isActive: boolean; // Controls whether the camera should be active
 }
 
-interface CameraFeedHandle {
+export interface CapturedFrame {
+  dataUri: string;
+  timestampMs: number; // Capture time, in milliseconds since the Unix epoch
+  perceptualHash?: string; // Difference hash of the scene, for spotting near-identical clips; absent if sampling failed
+  quality?: FrameQualityStats; // Lighting measurements for the framing precheck; absent if sampling failed
+}
+
+export interface CaptureClipOptions {
+  durationMs?: number; // How long to buffer frames for
+  fps?: number; // Frames captured per second
+}
+
+export interface CameraFeedHandle {
   captureFrame: () => Promise<string | null>;
+  captureClip: (options?: CaptureClipOptions) => Promise<CapturedFrame[] | null>;
+  sampleLuma: () => LumaFrame | null; // Cheap low-resolution grayscale snapshot for motion tracking
 }
 
+const DEFAULT_CLIP_DURATION_MS = 3000;
+const DEFAULT_CLIP_FPS = 3;
+const CLIP_FRAME_MAX_WIDTH = 640; // Clip frames are downscaled to keep the request payload small
+const CLIP_FRAME_QUALITY = 0.7;
+const LUMA_SAMPLE_WIDTH = 48; // Motion tracking only needs a coarse picture of the scene
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
 const CameraFeed = forwardRef<CameraFeedHandle, CameraFeedProps>(({ onReady, isActive }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null); // Offscreen canvas for luma sampling
   const streamRef = useRef<MediaStream | null>(null);
   const [internalError, setInternalError] = useState<string | null>(null);
   const [permissionState, setPermissionState] = useState<'prompt' | 'granted' | 'denied' | 'unknown'>('unknown'); // Track permission specifically
@@ -200,11 +226,69 @@ const CameraFeed = forwardRef<CameraFeedHandle, CameraFeedProps>(({ onReady, isA
   // Re-run if isActive changes or reportStatus/stopCamera function identity changes (should be stable with useCallback)
   }, [isActive, reportStatus, stopCamera]);
 
+  // Draws the current (unmirrored) video frame onto the hidden canvas and encodes it as a JPEG data URI.
+  const drawFrame = useCallback((maxWidth?: number, quality = 0.8): string | null => {
+    // Check if stream exists and the video element is ready
+    if (!videoRef.current?.srcObject || !videoRef.current?.videoWidth || !canvasRef.current || !streamRef.current) {
+      return null;
+    }
+
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas.getContext('2d');
+
+    if (!context) {
+       console.error("Could not get 2D context from canvas.");
+       return null;
+    }
+
+    // Set canvas dimensions matching the video feed, optionally scaled down to maxWidth
+    const scale = maxWidth && video.videoWidth > maxWidth ? maxWidth / video.videoWidth : 1;
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+
+    try {
+      // Drawn as the camera sees it: only the preview is mirrored, so the user's left stays on the right of the
+      // frame and the model can tell their own left and right sides apart
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      // Convert canvas to Data URI
+      return canvas.toDataURL('image/jpeg', quality); // Use JPEG for smaller size
+    } catch (e) {
+        console.error("Error converting canvas to data URL:", e);
+        // Could be due to tainted canvas (CORS) if video source was remote, but unlikely for getUserMedia
+        return null;
+    }
+  }, []);
+
+  // Draws the current video frame onto the small offscreen canvas and reads it back as luma.
+  const readLuma = useCallback((): LumaFrame | null => {
+    const video = videoRef.current;
+    if (!streamRef.current || !video?.videoWidth) {
+      return null;
+    }
+
+    if (!sampleCanvasRef.current) {
+      sampleCanvasRef.current = document.createElement('canvas');
+    }
+    const canvas = sampleCanvasRef.current;
+    canvas.width = LUMA_SAMPLE_WIDTH;
+    canvas.height = Math.max(1, Math.round(video.videoHeight * (LUMA_SAMPLE_WIDTH / video.videoWidth)));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      return null;
+    }
+
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { timestampMs: Date.now(), width: canvas.width, height: canvas.height, luma: toLuma(data) };
+  }, []);
+
   useImperativeHandle(ref, () => ({
     captureFrame: async (): Promise<string | null> => {
-      // Check if stream exists, video element is ready, and camera should be active
-      if (!videoRef.current?.srcObject || !videoRef.current?.videoWidth || !canvasRef.current || !streamRef.current || !isActive) {
-        console.warn("Capture frame called but camera is not ready, not active, or stream is missing.");
+      // Check if camera should be active
+      if (!isActive) {
+        console.warn("Capture frame called but camera is not active.");
         return null;
       }
       // Additional check for permission state
@@ -213,37 +297,52 @@ const CameraFeed = forwardRef<CameraFeedHandle, CameraFeedProps>(({ onReady, isA
            return null;
        }
 
+      const dataUri = drawFrame();
+      if (!dataUri) {
+        console.warn("Capture frame called but camera is not ready or stream is missing.");
+      }
+      return dataUri;
+    },
+    captureClip: async ({ durationMs = DEFAULT_CLIP_DURATION_MS, fps = DEFAULT_CLIP_FPS }: CaptureClipOptions = {}): Promise<CapturedFrame[] | null> => {
+      if (!isActive || permissionState !== 'granted') {
+        console.warn("Capture clip called but camera is not active or permission is not granted.");
+        return null;
+      }
 
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
+      const frameCount = Math.max(1, Math.round((durationMs / 1000) * fps));
+      const frameIntervalMs = 1000 / fps;
+      const frames: CapturedFrame[] = [];
 
-      if (!context) {
-         console.error("Could not get 2D context from canvas.");
-         return null;
+      for (let i = 0; i < frameCount; i++) {
+        // The stream can be stopped mid-clip (camera toggled off, permission revoked)
+        if (!streamRef.current) {
+          console.warn(`Camera stream stopped after ${frames.length} of ${frameCount} clip frames.`);
+          break;
+        }
+        const dataUri = drawFrame(CLIP_FRAME_MAX_WIDTH, CLIP_FRAME_QUALITY);
+        if (dataUri) {
+          const luma = readLuma();
+          frames.push({
+            dataUri,
+            timestampMs: Date.now(),
+            perceptualHash: luma ? differenceHash(luma) : undefined,
+            quality: luma ? measureFrameQuality(luma) : undefined,
+          });
+        }
+        if (i < frameCount - 1) {
+          await wait(frameIntervalMs);
+        }
       }
 
-      // Set canvas dimensions matching the video feed
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-
-      try {
-        // Draw mirrored frame onto the canvas
-        context.translate(canvas.width, 0);
-        context.scale(-1, 1);
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        context.setTransform(1, 0, 0, 1, 0, 0); // Reset transform for subsequent draws if needed
-
-        // Convert canvas to Data URI
-        const dataUri = canvas.toDataURL('image/jpeg', 0.8); // Use JPEG for smaller size, adjust quality (0.8) as needed
-        return dataUri;
-      } catch (e) {
-          console.error("Error converting canvas to data URL:", e);
-          // Could be due to tainted canvas (CORS) if video source was remote, but unlikely for getUserMedia
-          return null;
+      return frames.length > 0 ? frames : null;
+    },
+    sampleLuma: (): LumaFrame | null => {
+      if (!isActive || permissionState !== 'granted') {
+        return null;
       }
+      return readLuma();
     },
-  }), [isActive, permissionState]); // Depend on isActive and permissionState
+  }), [isActive, permissionState, drawFrame, readLuma]); // Depend on isActive and permissionState
 
   return (
     <div className="relative w-full h-full flex items-center justify-center bg-muted overflow-hidden rounded-md">
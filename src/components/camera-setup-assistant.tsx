@@ -0,0 +1,184 @@
+'use client';
+
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Camera, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import {
+  CAMERA_VIEW_LABELS,
+  isViewAcceptable,
+  type CameraSetupCheck,
+  type CameraSetupGuide,
+  type CameraSetupStatus,
+} from '@/lib/camera-setup';
+import { FRAMING_TIPS } from '@/lib/frame-quality';
+import type { Locale } from '@/lib/locales';
+
+interface CameraSetupAssistantProps {
+  exerciseType: string; // Empty while no exercise is selected
+  guide: CameraSetupGuide;
+  status: CameraSetupStatus;
+  check: CameraSetupCheck | null; // Result of the last check, if any
+  error: string | null; // Why the last check could not run
+  onCheck: () => void;
+  onOverride: () => void;
+  locale: Locale; // The language of the session's feedback
+}
+
+interface SetupText {
+  title: (exerciseType: string) => string;
+  angle: string;
+  stand: (view: string) => string;
+  anyAngle: string;
+  distance: string;
+  height: string;
+  passed: string;
+  overridden: string;
+  uncheckable: string;
+  needsAdjusting: string;
+  turn: (seen: string, wanted: string) => string;
+  checking: string;
+  check: string;
+  checkAgain: string;
+  useAnyway: string;
+  skip: string;
+}
+
+const SETUP_TEXT: Record<Locale, SetupText> = {
+  en: {
+    title: exerciseType => `Camera Setup${exerciseType ? ` for ${exerciseType}` : ''}`,
+    angle: 'Angle',
+    stand: view => `stand ${view}`,
+    anyAngle: 'any angle, as long as your whole body is in view',
+    distance: 'Distance',
+    height: 'Camera height',
+    passed: 'Setup looks good. You can start the analysis.',
+    overridden: 'Setup check skipped. Feedback may be less reliable from this angle.',
+    uncheckable: 'The setup could not be checked.',
+    needsAdjusting: 'Your setup needs adjusting:',
+    turn: (seen, wanted) => `You appear to be ${seen}. Turn so you are ${wanted}.`,
+    checking: 'Checking...',
+    check: 'Check My Setup',
+    checkAgain: 'Check Again',
+    useAnyway: 'Use This Setup Anyway',
+    skip: 'Skip Setup Check',
+  },
+  es: {
+    title: exerciseType => `Configuración de la cámara${exerciseType ? ` para ${exerciseType}` : ''}`,
+    angle: 'Ángulo',
+    stand: view => `colócate ${view}`,
+    anyAngle: 'cualquier ángulo, siempre que se vea todo tu cuerpo',
+    distance: 'Distancia',
+    height: 'Altura de la cámara',
+    passed: 'La configuración es correcta. Ya puedes iniciar el análisis.',
+    overridden: 'Comprobación omitida. Las correcciones pueden ser menos fiables desde este ángulo.',
+    uncheckable: 'No se pudo comprobar la configuración.',
+    needsAdjusting: 'Hay que ajustar la configuración:',
+    turn: (seen, wanted) => `Parece que estás ${seen}. Gírate para quedar ${wanted}.`,
+    checking: 'Comprobando...',
+    check: 'Comprobar configuración',
+    checkAgain: 'Comprobar de nuevo',
+    useAnyway: 'Usar esta configuración igualmente',
+    skip: 'Omitir comprobación',
+  },
+  de: {
+    title: exerciseType => `Kamera-Einrichtung${exerciseType ? ` für ${exerciseType}` : ''}`,
+    angle: 'Winkel',
+    stand: view => `stell dich ${view}`,
+    anyAngle: 'beliebiger Winkel, solange dein ganzer Körper im Bild ist',
+    distance: 'Abstand',
+    height: 'Kamerahöhe',
+    passed: 'Die Einrichtung passt. Du kannst die Analyse starten.',
+    overridden: 'Prüfung übersprungen. Das Feedback kann aus diesem Winkel weniger zuverlässig sein.',
+    uncheckable: 'Die Einrichtung konnte nicht geprüft werden.',
+    needsAdjusting: 'Deine Einrichtung muss angepasst werden:',
+    turn: (seen, wanted) => `Du stehst anscheinend ${seen}. Dreh dich, sodass du ${wanted} stehst.`,
+    checking: 'Wird geprüft...',
+    check: 'Einrichtung prüfen',
+    checkAgain: 'Erneut prüfen',
+    useAnyway: 'Trotzdem verwenden',
+    skip: 'Prüfung überspringen',
+  },
+};
+
+/**
+ * The setup step before analysis: the recommended camera angle and distance for the exercise, and a check of
+ * a live frame against it. Analysis is enabled once the check passes or the user chooses to start anyway.
+ */
+const CameraSetupAssistant: React.FC<CameraSetupAssistantProps> = ({ exerciseType, guide, status, check, error, onCheck, onOverride, locale }) => {
+  const accepted = status === 'passed' || status === 'overridden';
+  const text = SETUP_TEXT[locale];
+  const viewLabels = CAMERA_VIEW_LABELS[locale];
+
+  return (
+    <Alert variant="default" className={`w-full ${status === 'passed' ? 'border-green-500/50' : 'border-primary/50'}`}>
+      <Camera className="h-4 w-4 text-primary" />
+      <AlertTitle>{text.title(exerciseType)}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="mt-1 space-y-1 text-sm">
+          <li>
+            <span className="font-semibold">{text.angle}: </span>
+            {guide.view ? text.stand(viewLabels[guide.view]) : text.anyAngle}
+          </li>
+          <li>
+            <span className="font-semibold">{text.distance}: </span>
+            {guide.distance[locale]}
+          </li>
+          <li>
+            <span className="font-semibold">{text.height}: </span>
+            {guide.height[locale]}
+          </li>
+        </ul>
+        <p className="text-sm text-muted-foreground">{guide.why[locale]}</p>
+
+        {status === 'passed' && (
+          <p className="flex items-center text-sm font-medium text-green-700">
+            <CheckCircle2 className="mr-2 h-4 w-4" /> {text.passed}
+          </p>
+        )}
+        {status === 'overridden' && (
+          <p className="text-sm text-muted-foreground">{text.overridden}</p>
+        )}
+        {status === 'failed' && (
+          <div className="space-y-2 text-sm">
+            <p className="flex items-center font-medium text-destructive">
+              <XCircle className="mr-2 h-4 w-4" /> {error ? text.uncheckable : text.needsAdjusting}
+            </p>
+            {error && <p className="text-muted-foreground">{error}</p>}
+            {check && guide.view && !isViewAcceptable(guide, check.view) && (
+              <p>{text.turn(viewLabels[check.view ?? 'unclear'], viewLabels[guide.view])}</p>
+            )}
+            {check?.problems.map(problem => (
+              <div key={problem}>
+                <p className="font-semibold">{FRAMING_TIPS[locale][problem].title}</p>
+                <p className="text-muted-foreground">{FRAMING_TIPS[locale][problem].tip}</p>
+                {problem === 'joints-hidden' && check.missingBodyRegions.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {check.missingBodyRegions.map(region => (
+                      <Badge key={region} variant="outline" className="capitalize">{region}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={onCheck} disabled={status === 'checking'}>
+            {status === 'checking' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {status === 'checking' ? text.checking : status === 'unchecked' ? text.check : text.checkAgain}
+          </Button>
+          {!accepted && (
+            <Button size="sm" variant="ghost" onClick={onOverride} disabled={status === 'checking'}>
+              {status === 'failed' ? text.useAnyway : text.skip}
+            </Button>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default CameraSetupAssistant;
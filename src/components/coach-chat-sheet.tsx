@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
+import type { AnalyzeExerciseFormOutput } from '@/ai/flows/analyze-exercise-form';
+import { askCoach, type CoachChatMessage } from '@/ai/flows/coach-chat';
+import type { ModelUsage } from '@/ai/usage';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Send } from 'lucide-react';
+import { describeAnalysisError } from '@/lib/analysis-error-policy';
+import { rankIssues } from '@/lib/form-issues';
+import type { Locale } from '@/lib/locales';
+import { outcomeUsage } from '@/lib/usage';
+import type { UserProfile } from '@/lib/user-profile';
+import { cn } from '@/lib/utils';
+
+const MAX_SUGGESTIONS = 3;
+
+interface CoachText {
+  title: string;
+  aboutFeedback: (exerciseType: string) => string;
+  askAnything: string;
+  tryAsking: string;
+  suggestion: (cue: string) => string;
+  typing: string;
+  placeholder: string;
+  send: string;
+  unreachable: string;
+}
+
+const COACH_TEXT: Record<Locale, CoachText> = {
+  en: {
+    title: 'Ask the Coach',
+    aboutFeedback: exerciseType => `Questions about your latest ${exerciseType || 'exercise'} feedback? Ask away.`,
+    askAnything: 'Ask anything about your form. Answers get more specific once a clip has been analyzed.',
+    tryAsking: 'Try asking:',
+    suggestion: cue => `What does "${cue}" mean?`,
+    typing: 'Coach is typing...',
+    placeholder: 'e.g. What does keeping my core braced feel like?',
+    send: 'Send',
+    unreachable: 'Could not reach the coach. Check your connection and try again.',
+  },
+  es: {
+    title: 'Pregunta al entrenador',
+    aboutFeedback: exerciseType => `¿Dudas sobre tus últimas correcciones${exerciseType ? ` de ${exerciseType}` : ''}? Pregunta.`,
+    askAnything: 'Pregunta lo que quieras sobre tu técnica. Las respuestas serán más concretas cuando se haya analizado un clip.',
+    tryAsking: 'Prueba a preguntar:',
+    suggestion: cue => `¿Qué significa «${cue}»?`,
+    typing: 'El entrenador está escribiendo...',
+    placeholder: 'p. ej. ¿Qué se siente al mantener el core activado?',
+    send: 'Enviar',
+    unreachable: 'No se pudo contactar con el entrenador. Revisa tu conexión e inténtalo de nuevo.',
+  },
+  de: {
+    title: 'Frag den Coach',
+    aboutFeedback: exerciseType => `Fragen zu deinem letzten Feedback${exerciseType ? ` zu ${exerciseType}` : ''}? Nur zu.`,
+    askAnything: 'Frag alles zu deiner Technik. Die Antworten werden genauer, sobald ein Clip analysiert wurde.',
+    tryAsking: 'Frag zum Beispiel:',
+    suggestion: cue => `Was bedeutet „${cue}“?`,
+    typing: 'Der Coach schreibt...',
+    placeholder: 'z. B. Wie fühlt es sich an, die Körpermitte angespannt zu halten?',
+    send: 'Senden',
+    unreachable: 'Der Coach war nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  },
+};
+
+interface CoachChatSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exerciseType: string;
+  latestFeedback: AnalyzeExerciseFormOutput | null;
+  recentFeedback: string[]; // Summaries of the analyses before the latest one, oldest first
+  profile: UserProfile;
+  locale: Locale; // The language answers are written in
+  onUsage?: (usage: ModelUsage[]) => void; // Called with the tokens and cost of every question, answered or not
+}
+
+const CoachChatSheet: React.FC<CoachChatSheetProps> = ({ open, onOpenChange, exerciseType, latestFeedback, recentFeedback, profile, locale, onUsage }) => {
+  const [messages, setMessages] = useState<CoachChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const text = COACH_TEXT[locale];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isSending]);
+
+  // Starter questions about the cues the user was just given
+  const suggestions = latestFeedback
+    ? rankIssues(latestFeedback.issues).slice(0, MAX_SUGGESTIONS).map(issue => text.suggestion(issue.cue))
+    : [];
+
+  const send = async (message: string) => {
+    const trimmed = message.trim();
+    if (!trimmed || isSending) {
+      return;
+    }
+    const history = messages;
+    setMessages([...history, { role: 'user', text: trimmed }]);
+    setQuestion('');
+    setError(null);
+    setIsSending(true);
+    try {
+      const outcome = await askCoach({ question: trimmed, exerciseType, latestFeedback, recentFeedback, history, profile, locale });
+      onUsage?.(outcomeUsage(outcome));
+      if (outcome.ok) {
+        setMessages(previous => [...previous, { role: 'coach', text: outcome.result.answer }]);
+      } else {
+        console.error(`Coach chat failed (${outcome.error.code}):`, outcome.error.message);
+        setError(describeAnalysisError(outcome.error, locale).description);
+      }
+    } catch (err) {
+      console.error('Error asking the coach:', err);
+      setError(text.unreachable);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    send(question);
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      send(question);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>{text.title}</SheetTitle>
+          <SheetDescription>
+            {latestFeedback ? text.aboutFeedback(exerciseType) : text.askAnything}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="-mx-6 min-h-0 flex-1 px-6">
+          <div className="space-y-3 py-2">
+            {messages.length === 0 && suggestions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">{text.tryAsking}</p>
+                {suggestions.map(suggestion => (
+                  <Button
+                    key={suggestion}
+                    variant="outline"
+                    size="sm"
+                    className="h-auto w-full justify-start whitespace-normal text-left"
+                    onClick={() => send(suggestion)}
+                    disabled={isSending}
+                  >
+                    {suggestion}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={cn(
+                  'max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm',
+                  message.role === 'user' ? 'ml-auto bg-primary text-primary-foreground' : 'bg-muted'
+                )}
+              >
+                {message.text}
+              </div>
+            ))}
+            {isSending && (
+              <div className="flex w-fit items-center rounded-lg bg-muted px-3 py-2 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> {text.typing}
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div ref={bottomRef} />
+          </div>
+        </ScrollArea>
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2 border-t pt-4">
+          <Textarea
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={text.placeholder}
+            className="min-h-[44px] resize-none"
+            rows={2}
+            disabled={isSending}
+          />
+          <Button type="submit" size="icon" disabled={isSending || !question.trim()} aria-label={text.send}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CoachChatSheet;
@@ -2,21 +2,123 @@
 'use client';
 
 import React from 'react';
-import type { AnalyzeExerciseFormOutput } from '@/ai/flows/analyze-exercise-form';
+import type { AnalyzeExerciseFormOutput, CheckpointStatus, FormFeedbackDraft, IssueSeverity } from '@/ai/flows/analyze-exercise-form';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, AlertTriangle, Check, X, HelpCircle, Loader2, Ruler, type LucideIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion'; // Import Framer Motion
+import { BODY_REGION_LABELS, rankIssues } from '@/lib/form-issues';
+import { LOCALE_LABELS, type Locale } from '@/lib/locales';
+import { describeExpectedRange, readingLabel } from '@/lib/range-of-motion';
+import type { BodySide } from '@/lib/symmetry';
+
+const SEVERITY_BADGE_CLASSES: Record<IssueSeverity, string> = {
+  high: 'border-transparent bg-red-600 text-white hover:bg-red-600',
+  medium: 'border-transparent bg-orange-500 text-white hover:bg-orange-500',
+  low: 'border-transparent bg-yellow-400 text-yellow-950 hover:bg-yellow-400',
+};
+
+interface FeedbackText {
+  analyzing: string;
+  correct: string;
+  incorrect: string;
+  severities: Record<IssueSeverity, string>;
+  checkpoints: Record<CheckpointStatus, string>;
+  issueRegion: (region: string, side: BodySide) => string;
+  confident: (percent: number) => string;
+  fullRange: (range: string) => string;
+  partialRep: string;
+  languageMismatch: (language: string) => string;
+}
+
+// The panel's own wording, in the language the feedback was requested in
+const FEEDBACK_TEXT: Record<Locale, FeedbackText> = {
+  en: {
+    analyzing: 'Analyzing Your Form...',
+    correct: 'Form Looks Good!',
+    incorrect: 'Form Needs Correction',
+    severities: { high: 'high', medium: 'medium', low: 'low' },
+    checkpoints: { pass: 'Pass', fail: 'Fail', unknown: "Can't tell" },
+    issueRegion: (region, side) => (side === 'both' ? region : `${side} ${region}`),
+    confident: percent => `${percent}% confident`,
+    fullRange: range => `full range ${range}`,
+    partialRep: 'partial rep',
+    languageMismatch: language => `This feedback may not be in ${language}, the language you chose.`,
+  },
+  es: {
+    analyzing: 'Analizando tu técnica...',
+    correct: '¡Buena técnica!',
+    incorrect: 'Hay que corregir la técnica',
+    severities: { high: 'alta', medium: 'media', low: 'baja' },
+    checkpoints: { pass: 'Cumple', fail: 'No cumple', unknown: 'No se distingue' },
+    issueRegion: (region, side) => (side === 'both' ? region : `${region}, lado ${side === 'left' ? 'izquierdo' : 'derecho'}`),
+    confident: percent => `${percent}% de confianza`,
+    fullRange: range => `rango completo ${range}`,
+    partialRep: 'repetición parcial',
+    languageMismatch: language => `Puede que estas correcciones no estén en ${language}, el idioma que elegiste.`,
+  },
+  de: {
+    analyzing: 'Technik wird analysiert...',
+    correct: 'Saubere Technik!',
+    incorrect: 'Technik korrigieren',
+    severities: { high: 'hoch', medium: 'mittel', low: 'niedrig' },
+    checkpoints: { pass: 'Erfüllt', fail: 'Nicht erfüllt', unknown: 'Nicht erkennbar' },
+    issueRegion: (region, side) => (side === 'both' ? region : `${region}, ${side === 'left' ? 'linke' : 'rechte'} Seite`),
+    confident: percent => `${percent}% sicher`,
+    fullRange: range => `voller Bewegungsumfang ${range}`,
+    partialRep: 'Teilwiederholung',
+    languageMismatch: language => `Dieses Feedback ist möglicherweise nicht auf ${language}, der von dir gewählten Sprache.`,
+  },
+};
+
+const CHECKPOINT_ICONS: Record<CheckpointStatus, { Icon: LucideIcon; className: string }> = {
+  pass: { Icon: Check, className: 'h-4 w-4 text-green-600' },
+  fail: { Icon: X, className: 'h-4 w-4 text-red-600' },
+  unknown: { Icon: HelpCircle, className: 'h-4 w-4 text-muted-foreground' },
+};
 
 interface FeedbackDisplayProps {
   feedback: AnalyzeExerciseFormOutput | null;
+  draft?: FormFeedbackDraft | null; // Partial feedback for the clip being analyzed; shown instead of `feedback` until it completes
+  locale: Locale; // The language the clip being analyzed was requested in; a finished result carries its own
 }
 
-const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ feedback }) => {
+const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ feedback, draft, locale }) => {
+  if (draft) {
+    return (
+      <Alert className="w-full border-2 border-primary/40">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        <AlertTitle className="font-semibold text-primary">{FEEDBACK_TEXT[locale].analyzing}</AlertTitle>
+        <AlertDescription>
+          {draft.feedback}
+          {draft.cues.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              <AnimatePresence initial={false}>
+                {draft.cues.map((cue, index) => (
+                  <motion.li
+                    key={index}
+                    initial={{ opacity: 0, x: -8 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    className="rounded-md border bg-background/60 px-2 py-1 font-semibold text-foreground"
+                  >
+                    {cue}
+                  </motion.li>
+                ))}
+              </AnimatePresence>
+            </ul>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
   if (!feedback) {
     return null; // Don't render anything if there's no feedback yet
   }
 
   const isCorrect = feedback.formCorrect;
+  const issues = rankIssues(feedback.issues);
+  const text = FEEDBACK_TEXT[feedback.locale];
 
   return (
     <AnimatePresence>
@@ -35,10 +137,63 @@ const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ feedback }) => {
             <AlertTriangle className="h-5 w-5 text-red-600" />
           )}
           <AlertTitle className={`font-semibold ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
-            {isCorrect ? 'Form Looks Good!' : 'Form Needs Correction'}
+            {isCorrect ? text.correct : text.incorrect}
           </AlertTitle>
           <AlertDescription className={isCorrect ? 'text-green-600' : 'text-red-600'}>
             {feedback.feedback}
+            {issues.length > 0 && (
+              <ol className="mt-3 space-y-2">
+                {issues.map((issue, index) => (
+                  <li key={`${issue.bodyRegion}-${index}`} className="rounded-md border border-red-200 bg-background/60 p-2 text-foreground">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={SEVERITY_BADGE_CLASSES[issue.severity]}>{text.severities[issue.severity]}</Badge>
+                      <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                        {text.issueRegion(BODY_REGION_LABELS[feedback.locale][issue.bodyRegion], issue.side)}
+                      </span>
+                      <span className="ml-auto text-xs text-muted-foreground">{text.confident(Math.round(issue.confidence * 100))}</span>
+                    </div>
+                    <p className="mt-1 font-semibold">{issue.cue}</p>
+                    <p className="text-sm text-muted-foreground">{issue.explanation}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {feedback.checkpoints.length > 0 && (
+              <ul className="mt-3 space-y-1 rounded-md border bg-background/60 p-2 text-foreground">
+                {feedback.checkpoints.map((checkpoint) => {
+                  const { Icon, className } = CHECKPOINT_ICONS[checkpoint.status];
+                  return (
+                    <li key={checkpoint.id} className="flex items-start gap-2 text-sm">
+                      <Icon className={`mt-0.5 shrink-0 ${className}`} aria-label={text.checkpoints[checkpoint.status]} />
+                      <span className={checkpoint.status === 'unknown' ? 'text-muted-foreground' : undefined}>
+                        {checkpoint.label}
+                        {checkpoint.note && <span className="text-muted-foreground"> — {checkpoint.note}</span>}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {feedback.rangeOfMotion.length > 0 && (
+              <ul className="mt-3 space-y-1 rounded-md border bg-background/60 p-2 text-foreground">
+                {feedback.rangeOfMotion.map((reading) => (
+                  <li key={`${reading.id}-${reading.side}-${reading.timestampMs}`} className="flex items-start gap-2 text-sm">
+                    <Ruler className={`mt-0.5 h-4 w-4 shrink-0 ${reading.withinRange ? 'text-green-600' : 'text-red-600'}`} />
+                    <span>
+                      {readingLabel(reading, feedback.locale)}: <span className="font-semibold tabular-nums">{reading.degrees}°</span>
+                      <span className="text-muted-foreground">
+                        {' '}({text.fullRange(describeExpectedRange(reading, feedback.locale))}){!reading.withinRange && ` — ${text.partialRep}`}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {feedback.languageCheck === 'mismatch' && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                {text.languageMismatch(LOCALE_LABELS[feedback.locale])}
+              </p>
+            )}
           </AlertDescription>
         </Alert>
       </motion.div>
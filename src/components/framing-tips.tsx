@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Camera } from 'lucide-react';
+import { FRAMING_TIPS, type FramingProblem } from '@/lib/frame-quality';
+import type { Locale } from '@/lib/locales';
+
+interface FramingTipsProps {
+  problems: FramingProblem[];
+  missingBodyRegions: string[];
+  locale: Locale; // The language the form feedback is written in
+}
+
+const HEADINGS: Record<Locale, { title: string; description: string }> = {
+  en: {
+    title: 'Adjust Your Setup',
+    description: "We can't see you well enough to judge your form. Form feedback resumes once this is fixed.",
+  },
+  es: {
+    title: 'Ajusta la cámara',
+    description: 'No te vemos lo bastante bien para evaluar tu técnica. Las correcciones se reanudan cuando lo soluciones.',
+  },
+  de: {
+    title: 'Kamera anpassen',
+    description: 'Wir sehen dich nicht gut genug, um deine Technik zu beurteilen. Das Feedback geht weiter, sobald das behoben ist.',
+  },
+};
+
+/**
+ * Shown instead of form feedback when the precheck finds the user can't be analyzed reliably.
+ */
+const FramingTips: React.FC<FramingTipsProps> = ({ problems, missingBodyRegions, locale }) => {
+  return (
+    <Alert className="w-full border-2 border-yellow-500/60">
+      <Camera className="h-5 w-5 text-yellow-600" />
+      <AlertTitle className="font-semibold text-yellow-700">{HEADINGS[locale].title}</AlertTitle>
+      <AlertDescription>
+        <p>{HEADINGS[locale].description}</p>
+        <ul className="mt-3 space-y-2">
+          {problems.map(problem => (
+            <li key={problem} className="rounded-md border bg-background/60 p-2 text-foreground">
+              <p className="font-semibold">{FRAMING_TIPS[locale][problem].title}</p>
+              <p className="text-sm text-muted-foreground">{FRAMING_TIPS[locale][problem].tip}</p>
+              {problem === 'joints-hidden' && missingBodyRegions.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {missingBodyRegions.map(region => (
+                    <Badge key={region} variant="outline" className="capitalize">{region}</Badge>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default FramingTips;
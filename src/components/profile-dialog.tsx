@@ -0,0 +1,240 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import type { Locale } from '@/lib/locales';
+import {
+  EMPTY_USER_PROFILE,
+  EXPERIENCE_LEVEL_LABELS,
+  EXPERIENCE_LEVELS,
+  TRAINING_GOAL_LABELS,
+  TRAINING_GOALS,
+  UserProfileSchema,
+  type UserProfile,
+} from '@/lib/user-profile';
+
+interface ProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: UserProfile;
+  onSave: (profile: UserProfile) => void;
+  locale: Locale; // The language of the session's feedback
+}
+
+interface ProfileText {
+  title: string;
+  description: string;
+  storedLocally: string;
+  experience: string;
+  experiencePlaceholder: string;
+  goals: string;
+  injuries: string;
+  injuriesPlaceholder: string;
+  injuriesHint: string;
+  mobility: string;
+  mobilityPlaceholder: string;
+  clear: string;
+  save: string;
+}
+
+const PROFILE_TEXT: Record<Locale, ProfileText> = {
+  en: {
+    title: 'Your Profile',
+    description: "Tell us about your training so feedback fits your level and steers clear of advice that isn't safe for you.",
+    storedLocally: 'Saved in this browser only.',
+    experience: 'Experience',
+    experiencePlaceholder: 'How long have you been training?',
+    goals: 'Goals',
+    injuries: 'Injuries or limitations',
+    injuriesPlaceholder: 'e.g. Recovering from a left knee injury; lower back gets sore',
+    injuriesHint: 'Feedback will avoid pushing you into movements that could aggravate these.',
+    mobility: 'Mobility restrictions',
+    mobilityPlaceholder: "e.g. Tight ankles, can't raise arms fully overhead",
+    clear: 'Clear',
+    save: 'Save Profile',
+  },
+  es: {
+    title: 'Tu perfil',
+    description: 'Cuéntanos cómo entrenas para que las correcciones se ajusten a tu nivel y eviten consejos que no sean seguros para ti.',
+    storedLocally: 'Se guarda solo en este navegador.',
+    experience: 'Experiencia',
+    experiencePlaceholder: '¿Cuánto tiempo llevas entrenando?',
+    goals: 'Objetivos',
+    injuries: 'Lesiones o limitaciones',
+    injuriesPlaceholder: 'p. ej. Me recupero de una lesión en la rodilla izquierda; me duele la zona lumbar',
+    injuriesHint: 'Las correcciones evitarán llevarte a movimientos que puedan agravarlas.',
+    mobility: 'Restricciones de movilidad',
+    mobilityPlaceholder: 'p. ej. Tobillos rígidos, no puedo subir del todo los brazos por encima de la cabeza',
+    clear: 'Borrar',
+    save: 'Guardar perfil',
+  },
+  de: {
+    title: 'Dein Profil',
+    description: 'Erzähl uns von deinem Training, damit das Feedback zu deinem Niveau passt und Ratschläge meidet, die für dich nicht sicher sind.',
+    storedLocally: 'Wird nur in diesem Browser gespeichert.',
+    experience: 'Erfahrung',
+    experiencePlaceholder: 'Wie lange trainierst du schon?',
+    goals: 'Ziele',
+    injuries: 'Verletzungen oder Einschränkungen',
+    injuriesPlaceholder: 'z. B. Erhole mich von einer Verletzung am linken Knie; der untere Rücken schmerzt oft',
+    injuriesHint: 'Das Feedback vermeidet Bewegungen, die diese verschlimmern könnten.',
+    mobility: 'Eingeschränkte Beweglichkeit',
+    mobilityPlaceholder: 'z. B. Steife Knöchel, kann die Arme nicht ganz über den Kopf heben',
+    clear: 'Zurücksetzen',
+    save: 'Profil speichern',
+  },
+};
+
+const ProfileDialog: React.FC<ProfileDialogProps> = ({ open, onOpenChange, profile, onSave, locale }) => {
+  const text = PROFILE_TEXT[locale];
+  const form = useForm<UserProfile>({
+    resolver: zodResolver(UserProfileSchema),
+    defaultValues: profile,
+  });
+
+  // Start from the saved profile each time the dialog opens, discarding unsaved edits
+  useEffect(() => {
+    if (open) {
+      form.reset(profile);
+    }
+  }, [open, profile, form]);
+
+  const handleSubmit = (values: UserProfile) => {
+    onSave(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{text.title}</DialogTitle>
+          <DialogDescription>
+            {text.description} {text.storedLocally}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="experienceLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{text.experience}</FormLabel>
+                  <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={text.experiencePlaceholder} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EXPERIENCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>
+                          {EXPERIENCE_LEVEL_LABELS[locale][level]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="goals"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{text.goals}</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {TRAINING_GOALS.map((goal) => (
+                      <FormItem key={goal} className="flex items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value.includes(goal)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked ? [...field.value, goal] : field.value.filter((value) => value !== goal))
+                            }
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal">{TRAINING_GOAL_LABELS[locale][goal]}</FormLabel>
+                      </FormItem>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="injuries"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{text.injuries}</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder={text.injuriesPlaceholder} rows={2} {...field} />
+                  </FormControl>
+                  <FormDescription>{text.injuriesHint}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="mobilityRestrictions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{text.mobility}</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder={text.mobilityPlaceholder} rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button type="button" variant="ghost" onClick={() => form.reset(EMPTY_USER_PROFILE)}>
+                {text.clear}
+              </Button>
+              <Button type="submit">{text.save}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfileDialog;
@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { scoreSet, type RepVerdict, type ScoredRep } from '@/lib/rep-scoring';
+import type { Locale } from '@/lib/locales';
+import { describePartialRep, partialReadings } from '@/lib/range-of-motion';
+import { formatTempo, type RepTempo } from '@/lib/tempo';
+
+interface RepScorecardProps {
+  reps: ScoredRep[];
+  countsReps: boolean; // False for holds such as Plank
+  tempos?: RepTempo[]; // Measured tempo per rep, when the set has a target tempo
+  locale: Locale; // The language of the session's feedback
+}
+
+interface ScorecardText {
+  hold: string;
+  reps: string;
+  setScore: string;
+  scoredGood: (good: number, scored: number) => string;
+  columns: { time: string; tempo: string; form: string; cue: string };
+  verdicts: Record<RepVerdict, string>;
+  partial: string;
+}
+
+const SCORECARD_TEXT: Record<Locale, ScorecardText> = {
+  en: {
+    hold: 'This exercise is a hold, so reps are not counted. Form is scored on each analyzed clip instead.',
+    reps: 'Reps',
+    setScore: 'Set score',
+    scoredGood: (good, scored) => `${good} of ${scored} scored reps good`,
+    columns: { time: 'Time', tempo: 'Tempo', form: 'Form', cue: 'Cue' },
+    verdicts: { good: 'Good', 'needs-work': 'Needs work', unscored: 'Pending' },
+    partial: 'Partial',
+  },
+  es: {
+    hold: 'Este ejercicio es isométrico, así que no se cuentan repeticiones. La técnica se puntúa en cada clip analizado.',
+    reps: 'Repeticiones',
+    setScore: 'Puntuación de la serie',
+    scoredGood: (good, scored) => `${good} de ${scored} repeticiones puntuadas correctas`,
+    columns: { time: 'Tiempo', tempo: 'Ritmo', form: 'Técnica', cue: 'Indicación' },
+    verdicts: { good: 'Bien', 'needs-work': 'A mejorar', unscored: 'Pendiente' },
+    partial: 'Parcial',
+  },
+  de: {
+    hold: 'Diese Übung ist eine Halteübung, daher werden keine Wiederholungen gezählt. Die Technik wird stattdessen in jedem analysierten Clip bewertet.',
+    reps: 'Wiederholungen',
+    setScore: 'Satzwertung',
+    scoredGood: (good, scored) => `${good} von ${scored} bewerteten Wiederholungen gut`,
+    columns: { time: 'Zeit', tempo: 'Tempo', form: 'Technik', cue: 'Hinweis' },
+    verdicts: { good: 'Gut', 'needs-work': 'Verbessern', unscored: 'Ausstehend' },
+    partial: 'Teilweise',
+  },
+};
+
+const VERDICT_CLASSES: Record<RepVerdict, string> = {
+  good: 'border-transparent bg-green-600 text-white hover:bg-green-600',
+  'needs-work': 'border-transparent bg-red-600 text-white hover:bg-red-600',
+  unscored: '',
+};
+
+const formatTempoOf = (entry: RepTempo | undefined) => (entry ? formatTempo(entry.tempo) : '');
+
+const RepScorecard: React.FC<RepScorecardProps> = ({ reps, countsReps, tempos, locale }) => {
+  const text = SCORECARD_TEXT[locale];
+  if (!countsReps) {
+    return (
+      <p className="w-full text-sm text-muted-foreground text-center">
+        {text.hold}
+      </p>
+    );
+  }
+
+  const score = scoreSet(reps);
+  const tempoByRep = tempos && new Map(tempos.map(entry => [entry.index, entry]));
+
+  return (
+    <div className="w-full rounded-md border p-4">
+      <div className="flex items-baseline justify-between">
+        <div>
+          <p className="text-sm text-muted-foreground">{text.reps}</p>
+          <p className="text-4xl font-bold text-primary">{score.reps}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-muted-foreground">{text.setScore}</p>
+          <p className="text-2xl font-semibold">
+            {score.percentGood === null ? '—' : `${score.percentGood}%`}
+          </p>
+          <p className="text-xs text-muted-foreground">{text.scoredGood(score.good, score.scored)}</p>
+        </div>
+      </div>
+
+      {reps.length > 0 && (
+        <Table className="mt-2">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead className="w-20">{text.columns.time}</TableHead>
+              {tempoByRep && <TableHead className="w-28">{text.columns.tempo}</TableHead>}
+              <TableHead className="w-28">{text.columns.form}</TableHead>
+              <TableHead>{text.columns.cue}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reps.map(rep => (
+              <TableRow key={rep.index}>
+                <TableCell>{rep.index}</TableCell>
+                <TableCell>{((rep.endMs - rep.startMs) / 1000).toFixed(1)}s</TableCell>
+                {tempoByRep && (
+                  <TableCell className={`font-mono ${tempoByRep.get(rep.index)?.deviations.length ? 'text-red-600' : 'text-green-700'}`}>
+                    {formatTempoOf(tempoByRep.get(rep.index))}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Badge variant={rep.verdict === 'unscored' ? 'outline' : 'default'} className={VERDICT_CLASSES[rep.verdict]}>
+                    {text.verdicts[rep.verdict]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {partialReadings(rep.rangeOfMotion).map(reading => (
+                    <p key={`${reading.id}-${reading.side}`} className="font-medium text-red-600">{text.partial}: {describePartialRep(reading, locale)}</p>
+                  ))}
+                  {rep.verdict === 'needs-work' ? rep.cue : ''}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default RepScorecard;
@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { OctagonAlert } from 'lucide-react';
+import { SAFETY_HAZARD_LABELS, SAFETY_INTERRUPT_TEXT, type SafetyEvent } from '@/lib/safety';
+
+interface SafetyInterruptProps {
+  event: SafetyEvent | null; // The alert being escalated; the interrupt is shown while this is set
+  onContinue: () => void; // Dismisses the interrupt, resuming the session if it was paused
+  onEndSession: () => void;
+}
+
+/**
+ * Full-screen interrupt for a safety alert. Unlike ordinary feedback it blocks the page until the user
+ * acknowledges it, and it cannot be dismissed by clicking outside or pressing Escape.
+ */
+const SafetyInterrupt: React.FC<SafetyInterruptProps> = ({ event, onContinue, onEndSession }) => {
+  return (
+    <AlertDialog open={event !== null}>
+      <AlertDialogContent
+        className="flex h-[100dvh] w-screen max-w-none flex-col items-center justify-center border-0 bg-red-700 text-center text-white sm:rounded-none"
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        {event && (
+          <>
+            <OctagonAlert className="h-20 w-20 animate-pulse" aria-hidden />
+            <AlertDialogHeader className="max-w-xl space-y-4 sm:text-center">
+              <AlertDialogTitle className="text-4xl font-bold">
+                {SAFETY_HAZARD_LABELS[event.locale][event.alert.hazard]}
+              </AlertDialogTitle>
+              <p className="text-3xl font-semibold">{event.alert.instruction}</p>
+              <AlertDialogDescription className="text-lg text-red-100">
+                {event.alert.description}
+              </AlertDialogDescription>
+              <p className="text-sm text-red-200">
+                {event.paused
+                  ? SAFETY_INTERRUPT_TEXT[event.locale].paused
+                  : SAFETY_INTERRUPT_TEXT[event.locale].running}
+              </p>
+            </AlertDialogHeader>
+            <AlertDialogFooter className="mt-6 gap-3 sm:justify-center">
+              <AlertDialogCancel onClick={onEndSession} className="border-white bg-transparent text-white hover:bg-red-800 hover:text-white">
+                {SAFETY_INTERRUPT_TEXT[event.locale].endSession}
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={onContinue} className="bg-white text-red-700 hover:bg-red-100">
+                {SAFETY_INTERRUPT_TEXT[event.locale].continue}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SafetyInterrupt;
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import type { Locale } from '@/lib/locales';
+import { SAFETY_HAZARD_LABELS, type SafetyEvent } from '@/lib/safety';
+
+interface SafetyLogProps {
+  events: SafetyEvent[]; // Oldest first
+  locale: Locale; // The language of the session's feedback; each entry keeps the language it was raised in
+}
+
+const SAFETY_LOG_TEXT: Record<Locale, { title: (count: number) => string }> = {
+  en: { title: count => `Safety log (${count})` },
+  es: { title: count => `Registro de seguridad (${count})` },
+  de: { title: count => `Sicherheitsprotokoll (${count})` },
+};
+
+const SafetyLog: React.FC<SafetyLogProps> = ({ events, locale }) => {
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full rounded-md border border-red-300 p-4">
+      <p className="mb-2 flex items-center text-sm font-semibold text-red-700">
+        <ShieldAlert className="mr-2 h-4 w-4" /> {SAFETY_LOG_TEXT[locale].title(events.length)}
+      </p>
+      <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+        {[...events].reverse().map(event => (
+          <li key={event.id} className="flex gap-2">
+            <span className="shrink-0 tabular-nums text-muted-foreground">
+              {new Date(event.timestampMs).toLocaleTimeString()}
+            </span>
+            <span>
+              <span className="font-medium">{SAFETY_HAZARD_LABELS[event.locale][event.alert.hazard]}</span>
+              <span className="text-muted-foreground"> ({event.exerciseType}): {event.alert.description}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SafetyLog;
@@ -0,0 +1,240 @@
+'use client';
+
+import React from 'react';
+import type { BodyRegion } from '@/ai/flows/analyze-exercise-form';
+import type { SummarizeSessionOutput } from '@/ai/flows/summarize-session';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle2, Loader2, Ruler, Scale, Target, TrendingDown } from 'lucide-react';
+import SymmetryReport from '@/components/symmetry-report';
+import { BODY_REGIONS, BODY_REGION_LABELS } from '@/lib/form-issues';
+import type { Locale } from '@/lib/locales';
+import { readingLabel } from '@/lib/range-of-motion';
+
+interface SessionSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: SummarizeSessionOutput | null;
+  isLoading: boolean;
+  error: string | null;
+  locale: Locale; // The language of the session; a finished report carries its own
+}
+
+interface SummaryText {
+  title: string;
+  clipsAnalyzed: (clips: number, correct: number) => string;
+  intro: string;
+  writing: string;
+  unavailable: string;
+  overallScore: string;
+  wentWell: string;
+  recurringIssues: string;
+  inClips: (occurrences: number, clips: number) => string;
+  rangeOfMotion: string;
+  partialIn: (partial: number, measured: number) => string;
+  fullRange: string;
+  rangeDetails: (average: number, worst: number | null, expected: string) => string;
+  leftVsRight: string;
+  focusNext: string;
+  close: string;
+}
+
+const SUMMARY_TEXT: Record<Locale, SummaryText> = {
+  en: {
+    title: 'Session Report',
+    clipsAnalyzed: (clips, correct) => `${clips} ${clips === 1 ? 'clip' : 'clips'} analyzed, ${correct} with correct form.`,
+    intro: 'How your session went, and what to work on next time.',
+    writing: 'Writing your session report...',
+    unavailable: 'Report Unavailable',
+    overallScore: 'Overall score',
+    wentWell: 'What went well',
+    recurringIssues: 'Recurring issues',
+    inClips: (occurrences, clips) => `in ${occurrences} of ${clips} clips`,
+    rangeOfMotion: 'Range of motion',
+    partialIn: (partial, measured) => `partial in ${partial} of ${measured} reps`,
+    fullRange: 'full range',
+    rangeDetails: (average, worst, expected) => `Average ${average}°${worst === null ? '' : `, worst ${worst}°`}. Full range is ${expected}.`,
+    leftVsRight: 'Left vs right',
+    focusNext: 'Focus on next time',
+    close: 'Close',
+  },
+  es: {
+    title: 'Informe de la sesión',
+    clipsAnalyzed: (clips, correct) => `${clips} ${clips === 1 ? 'clip analizado' : 'clips analizados'}, ${correct} con buena técnica.`,
+    intro: 'Cómo fue tu sesión y qué trabajar la próxima vez.',
+    writing: 'Redactando el informe de tu sesión...',
+    unavailable: 'Informe no disponible',
+    overallScore: 'Puntuación global',
+    wentWell: 'Lo que salió bien',
+    recurringIssues: 'Problemas recurrentes',
+    inClips: (occurrences, clips) => `en ${occurrences} de ${clips} clips`,
+    rangeOfMotion: 'Rango de movimiento',
+    partialIn: (partial, measured) => `parcial en ${partial} de ${measured} repeticiones`,
+    fullRange: 'rango completo',
+    rangeDetails: (average, worst, expected) => `Media ${average}°${worst === null ? '' : `, peor ${worst}°`}. El rango completo es ${expected}.`,
+    leftVsRight: 'Izquierda frente a derecha',
+    focusNext: 'En qué centrarte la próxima vez',
+    close: 'Cerrar',
+  },
+  de: {
+    title: 'Trainingsbericht',
+    clipsAnalyzed: (clips, correct) => `${clips} ${clips === 1 ? 'Clip' : 'Clips'} analysiert, ${correct} mit sauberer Technik.`,
+    intro: 'Wie dein Training lief und woran du nächstes Mal arbeiten solltest.',
+    writing: 'Dein Trainingsbericht wird erstellt...',
+    unavailable: 'Bericht nicht verfügbar',
+    overallScore: 'Gesamtwertung',
+    wentWell: 'Was gut lief',
+    recurringIssues: 'Wiederkehrende Probleme',
+    inClips: (occurrences, clips) => `in ${occurrences} von ${clips} Clips`,
+    rangeOfMotion: 'Bewegungsumfang',
+    partialIn: (partial, measured) => `teilweise in ${partial} von ${measured} Wiederholungen`,
+    fullRange: 'voller Umfang',
+    rangeDetails: (average, worst, expected) => `Durchschnitt ${average}°${worst === null ? '' : `, schlechtester ${worst}°`}. Voller Umfang ist ${expected}.`,
+    leftVsRight: 'Links gegen rechts',
+    focusNext: 'Fokus für das nächste Mal',
+    close: 'Schließen',
+  },
+};
+
+// The model is asked to name regions exactly as tallied, but the answer is its own text
+const regionLabel = (region: string, locale: Locale) =>
+  (BODY_REGIONS as readonly string[]).includes(region) ? BODY_REGION_LABELS[locale][region as BodyRegion] : region;
+
+const SessionSummaryDialog: React.FC<SessionSummaryDialogProps> = ({ open, onOpenChange, report, isLoading, error, locale }) => {
+  const reportLocale = report?.locale ?? locale;
+  const text = SUMMARY_TEXT[reportLocale];
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{text.title}</DialogTitle>
+          <DialogDescription>
+            {report
+              ? text.clipsAnalyzed(report.clipCount, report.correctClipCount)
+              : text.intro}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" /> {text.writing}
+          </div>
+        )}
+
+        {!isLoading && error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{text.unavailable}</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && report && (
+          <div className="space-y-5">
+            <div>
+              <div className="flex items-baseline justify-between">
+                <p className="text-sm text-muted-foreground">{text.overallScore}</p>
+                <p className="text-3xl font-bold text-primary">{report.overallScore}</p>
+              </div>
+              <Progress value={report.overallScore} className="mt-1" />
+              <p className="mt-3 text-sm">{report.summary}</p>
+            </div>
+
+            {report.wentWell.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center font-semibold">
+                  <CheckCircle2 className="mr-2 h-4 w-4 text-green-600" /> {text.wentWell}
+                </h3>
+                <ul className="list-disc space-y-1 pl-6 text-sm">
+                  {report.wentWell.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {report.recurringIssues.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center font-semibold">
+                  <TrendingDown className="mr-2 h-4 w-4 text-red-600" /> {text.recurringIssues}
+                </h3>
+                <ul className="space-y-2 text-sm">
+                  {report.recurringIssues.map(issue => (
+                    <li key={issue.bodyRegion} className="rounded-md border p-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium capitalize">{regionLabel(issue.bodyRegion, reportLocale)}</span>
+                        <Badge variant="outline">{text.inClips(issue.occurrences, report.clipCount)}</Badge>
+                      </div>
+                      <p className="mt-1 text-muted-foreground">{issue.description}</p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {report.rangeOfMotion.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center font-semibold">
+                  <Ruler className="mr-2 h-4 w-4 text-primary" /> {text.rangeOfMotion}
+                </h3>
+                <ul className="space-y-2 text-sm">
+                  {report.rangeOfMotion.map(entry => (
+                    <li key={`${entry.exerciseType}-${entry.label}-${entry.side}`} className="rounded-md border p-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{entry.exerciseType}: {readingLabel(entry, reportLocale)}</span>
+                        <Badge variant="outline" className={entry.partial > 0 ? 'border-red-300 text-red-700' : undefined}>
+                          {entry.partial > 0 ? text.partialIn(entry.partial, entry.measured) : text.fullRange}
+                        </Badge>
+                      </div>
+                      <p className="mt-1 text-muted-foreground">
+                        {text.rangeDetails(entry.averageDegrees, entry.partial > 0 ? entry.worstDegrees : null, entry.expected)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {report.symmetry.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center font-semibold">
+                  <Scale className="mr-2 h-4 w-4 text-primary" /> {text.leftVsRight}
+                </h3>
+                <SymmetryReport reports={report.symmetry} locale={reportLocale} />
+              </section>
+            )}
+
+            {report.topCues.length > 0 && (
+              <section>
+                <h3 className="mb-2 flex items-center font-semibold">
+                  <Target className="mr-2 h-4 w-4 text-accent" /> {text.focusNext}
+                </h3>
+                <ol className="list-decimal space-y-1 pl-6 text-sm font-semibold">
+                  {report.topCues.map((cue, index) => (
+                    <li key={index}>{cue}</li>
+                  ))}
+                </ol>
+              </section>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{text.close}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionSummaryDialog;
@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Locale } from '@/lib/locales';
+import type { SymmetryReport as SymmetryReportData } from '@/lib/symmetry';
+import { formatTempo } from '@/lib/tempo';
+
+interface SymmetryReportProps {
+  reports: SymmetryReportData[]; // One per exercise where the sides could be told apart
+  locale: Locale;
+}
+
+interface SymmetryText {
+  title: (exerciseType: string) => string;
+  imbalance: string;
+  even: string;
+  left: string;
+  right: string;
+  tempo: string;
+  issues: string;
+}
+
+const SYMMETRY_TEXT: Record<Locale, SymmetryText> = {
+  en: {
+    title: exerciseType => `${exerciseType}: left vs right`,
+    imbalance: 'Imbalance',
+    even: 'Even',
+    left: 'Left',
+    right: 'Right',
+    tempo: 'Tempo (down-pause-up)',
+    issues: 'Issues flagged',
+  },
+  es: {
+    title: exerciseType => `${exerciseType}: izquierda frente a derecha`,
+    imbalance: 'Desequilibrio',
+    even: 'Equilibrado',
+    left: 'Izquierda',
+    right: 'Derecha',
+    tempo: 'Ritmo (bajada-pausa-subida)',
+    issues: 'Problemas detectados',
+  },
+  de: {
+    title: exerciseType => `${exerciseType}: links gegen rechts`,
+    imbalance: 'Ungleichgewicht',
+    even: 'Ausgeglichen',
+    left: 'Links',
+    right: 'Rechts',
+    tempo: 'Tempo (ab-Pause-auf)',
+    issues: 'Erkannte Probleme',
+  },
+};
+
+const IMBALANCED_CLASSES = 'font-semibold text-red-600';
+
+/**
+ * Left versus right range of motion, tempo and issues, per exercise. Used live during the session and in
+ * the session report.
+ */
+const SymmetryReport: React.FC<SymmetryReportProps> = ({ reports, locale }) => {
+  if (reports.length === 0) {
+    return null;
+  }
+  const text = SYMMETRY_TEXT[locale];
+
+  return (
+    <div className="w-full space-y-4">
+      {reports.map(report => (
+        <div key={report.exerciseType} className="rounded-md border p-4">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold">{text.title(report.exerciseType)}</p>
+            {report.imbalanced ? (
+              <Badge className="border-transparent bg-red-600 text-white hover:bg-red-600">{text.imbalance}</Badge>
+            ) : (
+              <Badge variant="outline">{text.even}</Badge>
+            )}
+          </div>
+          <Table className="mt-2">
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead className="w-28 text-right">{text.left}</TableHead>
+                <TableHead className="w-28 text-right">{text.right}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rangeOfMotion.map(entry => (
+                <TableRow key={entry.label} className={entry.imbalanced ? IMBALANCED_CLASSES : undefined}>
+                  <TableCell>{entry.label}</TableCell>
+                  <TableCell className="text-right tabular-nums">{entry.leftDegrees === null ? '—' : `${entry.leftDegrees}°`}</TableCell>
+                  <TableCell className="text-right tabular-nums">{entry.rightDegrees === null ? '—' : `${entry.rightDegrees}°`}</TableCell>
+                </TableRow>
+              ))}
+              {(report.tempo.left || report.tempo.right) && (
+                <TableRow className={report.tempo.imbalanced ? IMBALANCED_CLASSES : undefined}>
+                  <TableCell>{text.tempo}</TableCell>
+                  <TableCell className="text-right font-mono">{report.tempo.left ? `${formatTempo(report.tempo.left)} s` : '—'}</TableCell>
+                  <TableCell className="text-right font-mono">{report.tempo.right ? `${formatTempo(report.tempo.right)} s` : '—'}</TableCell>
+                </TableRow>
+              )}
+              <TableRow className={report.issues.imbalanced ? IMBALANCED_CLASSES : undefined}>
+                <TableCell>{text.issues}</TableCell>
+                <TableCell className="text-right tabular-nums">{report.issues.left.count}</TableCell>
+                <TableCell className="text-right tabular-nums">{report.issues.right.count}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+          {(report.issues.left.cues.length > 0 || report.issues.right.cues.length > 0) && (
+            <div className="mt-2 grid grid-cols-2 gap-2 text-sm text-muted-foreground">
+              <p>{report.issues.left.cues.length > 0 && `${text.left}: ${report.issues.left.cues.join('; ')}`}</p>
+              <p>{report.issues.right.cues.length > 0 && `${text.right}: ${report.issues.right.cues.join('; ')}`}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SymmetryReport;
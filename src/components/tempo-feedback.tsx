@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { Timer } from 'lucide-react';
+import type { Locale } from '@/lib/locales';
+import { averageTempo, formatTempo, tempoCue, type RepTempo, type TempoTarget } from '@/lib/tempo';
+
+interface TempoFeedbackProps {
+  exerciseType: string;
+  target: TempoTarget;
+  tempos: RepTempo[]; // One per completed rep, oldest first
+  locale: Locale; // The language of the session's feedback
+}
+
+interface TempoText {
+  title: (notation: string) => string;
+  waiting: string;
+  rep: (index: number) => string;
+  onTempo: string;
+  setAverage: string;
+  onTempoCount: (onTempo: number, reps: number) => string;
+}
+
+const TEMPO_TEXT: Record<Locale, TempoText> = {
+  en: {
+    title: notation => `Tempo (target ${notation})`,
+    waiting: 'Tempo cues appear after your first rep.',
+    rep: index => `Rep ${index}`,
+    onTempo: 'On tempo.',
+    setAverage: 'Set average',
+    onTempoCount: (onTempo, reps) => `${onTempo} of ${reps} reps on tempo`,
+  },
+  es: {
+    title: notation => `Ritmo (objetivo ${notation})`,
+    waiting: 'Las indicaciones de ritmo aparecen tras tu primera repetición.',
+    rep: index => `Repetición ${index}`,
+    onTempo: 'Buen ritmo.',
+    setAverage: 'Media de la serie',
+    onTempoCount: (onTempo, reps) => `${onTempo} de ${reps} repeticiones al ritmo`,
+  },
+  de: {
+    title: notation => `Tempo (Ziel ${notation})`,
+    waiting: 'Tempo-Hinweise erscheinen nach deiner ersten Wiederholung.',
+    rep: index => `Wiederholung ${index}`,
+    onTempo: 'Im Tempo.',
+    setAverage: 'Satzdurchschnitt',
+    onTempoCount: (onTempo, reps) => `${onTempo} von ${reps} Wiederholungen im Tempo`,
+  },
+};
+
+/**
+ * Tempo cues for the latest rep, shown next to the form feedback, plus how the set compares with the target.
+ */
+const TempoFeedback: React.FC<TempoFeedbackProps> = ({ exerciseType, target, tempos, locale }) => {
+  const latest = tempos[tempos.length - 1];
+  const average = averageTempo(tempos.map(entry => entry.tempo));
+  const onTempo = tempos.filter(entry => entry.deviations.length === 0).length;
+  const text = TEMPO_TEXT[locale];
+
+  return (
+    <div className="w-full rounded-md border p-4">
+      <p className="mb-2 flex items-center text-sm font-semibold">
+        <Timer className="mr-2 h-4 w-4 text-primary" /> {text.title(target.notation)}
+      </p>
+      {!latest ? (
+        <p className="text-sm text-muted-foreground">{text.waiting}</p>
+      ) : (
+        <>
+          <p className="text-sm">
+            {text.rep(latest.index)}: <span className="font-mono">{formatTempo(latest.tempo)}</span> s
+          </p>
+          {latest.deviations.length === 0 ? (
+            <p className="text-sm font-medium text-green-700">{text.onTempo}</p>
+          ) : (
+            <ul className="mt-1 list-disc space-y-1 pl-5 text-sm font-medium text-red-700">
+              {latest.deviations.map(deviation => (
+                <li key={deviation.phase}>{tempoCue(deviation, exerciseType, locale)}</li>
+              ))}
+            </ul>
+          )}
+          {average && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {text.setAverage} <span className="font-mono">{formatTempo(average)}</span> s, {text.onTempoCount(onTempo, tempos.length)}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TempoFeedback;
@@ -0,0 +1,181 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { Locale } from '@/lib/locales';
+import {
+  USAGE_FLOW_LABELS,
+  buildUsageExport,
+  formatUsd,
+  rollUpUsage,
+  totalUsage,
+  type UsageRecord,
+  type UsageTotals,
+} from '@/lib/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[]; // Every call recorded in this browser, oldest first
+  userId: string;
+  sessionId: string | null; // The running or last finished session
+  locale: Locale; // The language of the session's feedback
+}
+
+interface UsageText {
+  title: string;
+  export: string;
+  calls: string;
+  tokensIn: string;
+  tokensOut: string;
+  latency: string;
+  cost: string;
+  failed: (count: number) => string;
+  thisSession: string;
+  sessionOf: (start: string) => string;
+  allTime: string;
+  unpriced: string;
+}
+
+const USAGE_TEXT: Record<Locale, UsageText> = {
+  en: {
+    title: 'Model usage',
+    export: 'Export JSON',
+    calls: 'Calls',
+    tokensIn: 'Tokens in',
+    tokensOut: 'Tokens out',
+    latency: 'Avg latency',
+    cost: 'Est. cost',
+    failed: count => `${count} failed`,
+    thisSession: 'This session',
+    sessionOf: start => `Session of ${start}`,
+    allTime: 'All time',
+    unpriced: '* Leaves out calls to models without a known price.',
+  },
+  es: {
+    title: 'Uso del modelo',
+    export: 'Exportar JSON',
+    calls: 'Llamadas',
+    tokensIn: 'Tokens de entrada',
+    tokensOut: 'Tokens de salida',
+    latency: 'Latencia media',
+    cost: 'Coste est.',
+    failed: count => `${count} fallidas`,
+    thisSession: 'Esta sesión',
+    sessionOf: start => `Sesión del ${start}`,
+    allTime: 'Total',
+    unpriced: '* No incluye las llamadas a modelos sin precio conocido.',
+  },
+  de: {
+    title: 'Modellnutzung',
+    export: 'JSON exportieren',
+    calls: 'Aufrufe',
+    tokensIn: 'Tokens rein',
+    tokensOut: 'Tokens raus',
+    latency: 'Ø Latenz',
+    cost: 'Gesch. Kosten',
+    failed: count => `${count} fehlgeschlagen`,
+    thisSession: 'Diese Sitzung',
+    sessionOf: start => `Sitzung vom ${start}`,
+    allTime: 'Insgesamt',
+    unpriced: '* Ohne Aufrufe von Modellen ohne bekannten Preis.',
+  },
+};
+
+const MAX_RECENT_SESSIONS = 5;
+
+const UsageRow: React.FC<{ label: string; totals: UsageTotals; text: UsageText; className?: string; indent?: boolean }> = ({ label, totals, text, className, indent }) => (
+  <TableRow className={className}>
+    <TableCell className={indent ? 'pl-6' : undefined}>{label}</TableCell>
+    <TableCell className="text-right tabular-nums">
+      {totals.calls}
+      {totals.failedCalls > 0 && <span className="text-muted-foreground"> ({text.failed(totals.failedCalls)})</span>}
+    </TableCell>
+    <TableCell className="text-right tabular-nums">{totals.inputTokens.toLocaleString()}</TableCell>
+    <TableCell className="text-right tabular-nums">{totals.outputTokens.toLocaleString()}</TableCell>
+    <TableCell className="text-right tabular-nums">{(totals.averageLatencyMs / 1000).toFixed(1)} s</TableCell>
+    <TableCell className="text-right tabular-nums">
+      {formatUsd(totals.costUsd)}
+      {totals.unpricedCalls > 0 && '*'}
+    </TableCell>
+  </TableRow>
+);
+
+/**
+ * Tokens, latency and estimated cost of the model calls, for the current session by flow, recent sessions and
+ * everything this user has run in this browser, with a JSON export of every call.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, userId, sessionId, locale }) => {
+  if (records.length === 0) {
+    return null;
+  }
+
+  const text = USAGE_TEXT[locale];
+  const userRecords = records.filter(record => record.userId === userId);
+  const sessionRecords = sessionId ? userRecords.filter(record => record.sessionId === sessionId) : [];
+  const recentSessions = rollUpUsage(userRecords, 'sessionId')
+    .filter(session => session.key !== null && session.key !== sessionId)
+    .slice(-MAX_RECENT_SESSIONS)
+    .reverse();
+  const hasUnpriced = records.some(record => record.costUsd === null);
+
+  const exportUsage = () => {
+    const blob = new Blob([JSON.stringify(buildUsageExport(records), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `gymsight-usage-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    // Revoked once the click has been handled; revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="w-full rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">{text.title}</p>
+        <Button variant="outline" size="sm" onClick={exportUsage}>
+          <Download className="mr-2 h-4 w-4" /> {text.export}
+        </Button>
+      </div>
+      <Table className="mt-2 text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead className="text-right">{text.calls}</TableHead>
+            <TableHead className="text-right">{text.tokensIn}</TableHead>
+            <TableHead className="text-right">{text.tokensOut}</TableHead>
+            <TableHead className="text-right">{text.latency}</TableHead>
+            <TableHead className="text-right">{text.cost}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sessionRecords.length > 0 && (
+            <>
+              <UsageRow label={text.thisSession} totals={totalUsage(sessionRecords)} text={text} className="font-semibold" />
+              {rollUpUsage(sessionRecords, 'flow').map(flow => (
+                <UsageRow
+                  key={flow.key}
+                  label={USAGE_FLOW_LABELS[locale][flow.key]}
+                  totals={flow}
+                  text={text}
+                  className="text-muted-foreground"
+                  indent
+                />
+              ))}
+            </>
+          )}
+          {recentSessions.map(session => (
+            <UsageRow key={session.key} label={text.sessionOf(new Date(session.firstMs).toLocaleString())} totals={session} text={text} />
+          ))}
+          <UsageRow label={text.allTime} totals={totalUsage(userRecords)} text={text} className="font-semibold" />
+        </TableBody>
+      </Table>
+      {hasUnpriced && (
+        <p className="mt-2 text-xs text-muted-foreground">{text.unpriced}</p>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
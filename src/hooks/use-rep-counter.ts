@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState, type RefObject } from 'react';
+import type { CameraFeedHandle } from '@/components/camera-feed';
+import { isExerciseType } from '@/lib/exercises';
+import { REP_PROFILES, RepCounter, type RepEvent } from '@/lib/rep-counter';
+
+const SAMPLE_INTERVAL_MS = 100; // 10 samples per second is plenty to resolve a rep
+
+/**
+ * Counts reps of `exercise` from the camera feed while `active` is true.
+ * The count restarts each time `active` turns on, and is kept after it turns off so the set can be reviewed.
+ */
+export function useRepCounter(
+  cameraFeedRef: RefObject<CameraFeedHandle | null>,
+  exercise: string,
+  active: boolean
+): RepEvent[] {
+  const [reps, setReps] = useState<RepEvent[]>([]);
+
+  // Reps of a different exercise are meaningless once the selection changes
+  useEffect(() => {
+    setReps([]);
+  }, [exercise]);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    setReps([]);
+    const profile = isExerciseType(exercise) ? REP_PROFILES[exercise] : null;
+    if (!profile) {
+      return; // Nothing to count for holds
+    }
+
+    const counter = new RepCounter(profile);
+    const interval = setInterval(() => {
+      const frame = cameraFeedRef.current?.sampleLuma();
+      if (!frame) {
+        return;
+      }
+      const rep = counter.push(frame);
+      if (rep) {
+        setReps(previous => [...previous, rep]);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [active, exercise, cameraFeedRef]);
+
+  return reps;
+}
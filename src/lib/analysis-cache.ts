@@ -0,0 +1,98 @@
+import { hammingDistance } from '@/lib/perceptual-hash';
+
+export interface AnalysisCacheOptions {
+  maxDistance: number; // Largest per-frame hash distance (0-64 bits) still treated as the same scene
+  ttlMs: number; // How long a result may be reused after the model produced it
+  maxEntries: number; // Oldest results are evicted beyond this
+}
+
+export const DEFAULT_ANALYSIS_CACHE_OPTIONS: AnalysisCacheOptions = {
+  maxDistance: 6,
+  ttlMs: 30_000,
+  maxEntries: 8,
+};
+
+export interface AnalysisCacheStats {
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry<T> {
+  exerciseType: string;
+  frameHashes: string[];
+  storedAtMs: number;
+  result: T;
+}
+
+/**
+ * Reuses analysis results for clips that look the same as a recently analyzed one, e.g. a held Plank.
+ *
+ * Clips are compared frame by frame on their perceptual hashes; a clip matches an entry of the same
+ * exercise when every aligned pair of frames is within `maxDistance` bits. Entries are not refreshed
+ * on a hit, so a long, unchanging hold still gets a fresh model call once every `ttlMs`.
+ */
+export class AnalysisCache<T> {
+  private entries: CacheEntry<T>[] = [];
+  private stats: AnalysisCacheStats = { hits: 0, misses: 0 };
+
+  constructor(private readonly options: AnalysisCacheOptions = DEFAULT_ANALYSIS_CACHE_OPTIONS) {}
+
+  /**
+   * The cached result for a clip of `exerciseType` with these frame hashes, if there is a close enough one.
+   * Counts a hit or a miss either way.
+   */
+  lookup(exerciseType: string, frameHashes: string[], nowMs = Date.now()): T | null {
+    this.entries = this.entries.filter(entry => nowMs - entry.storedAtMs < this.options.ttlMs);
+
+    let best: { entry: CacheEntry<T>; distance: number } | null = null;
+    for (const entry of this.entries) {
+      if (entry.exerciseType !== exerciseType) {
+        continue;
+      }
+      const distance = clipDistance(entry.frameHashes, frameHashes);
+      if (distance <= this.options.maxDistance && (!best || distance < best.distance)) {
+        best = { entry, distance };
+      }
+    }
+
+    if (best) {
+      this.stats = { ...this.stats, hits: this.stats.hits + 1 };
+      return best.entry.result;
+    }
+    this.stats = { ...this.stats, misses: this.stats.misses + 1 };
+    return null;
+  }
+
+  store(exerciseType: string, frameHashes: string[], result: T, nowMs = Date.now()): void {
+    if (frameHashes.length === 0) {
+      return;
+    }
+    this.entries = [...this.entries, { exerciseType, frameHashes, storedAtMs: nowMs, result }].slice(
+      -this.options.maxEntries
+    );
+  }
+
+  getStats(): AnalysisCacheStats {
+    return this.stats;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.stats = { hits: 0, misses: 0 };
+  }
+}
+
+/**
+ * Largest hash distance between aligned frames of two clips; Infinity when they can't be compared.
+ */
+function clipDistance(a: string[], b: string[]): number {
+  const frames = Math.min(a.length, b.length);
+  if (frames === 0) {
+    return Infinity;
+  }
+  let distance = 0;
+  for (let i = 0; i < frames; i++) {
+    distance = Math.max(distance, hammingDistance(a[Math.floor((i * a.length) / frames)], b[Math.floor((i * b.length) / frames)]));
+  }
+  return distance;
+}
@@ -0,0 +1,195 @@
+import type { AnalysisError, AnalysisErrorCode, InputRejectionReason } from '@/ai/errors';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/locales';
+
+export type ErrorAction =
+  | 'retry' // Retry the same clip with exponential backoff, then skip the cycle if it still fails
+  | 'skip' // Give up on this clip and try again with the next one
+  | 'stop'; // End the session; later clips would fail the same way
+
+export interface ErrorPolicy {
+  action: ErrorAction;
+  maxRetries: number;
+  baseDelayMs: number; // First retry delay; doubles with each further attempt
+}
+
+export const ERROR_POLICIES: Record<AnalysisErrorCode, ErrorPolicy> = {
+  rate_limited: { action: 'retry', maxRetries: 3, baseDelayMs: 2000 },
+  timeout: { action: 'retry', maxRetries: 1, baseDelayMs: 1000 },
+  model_unavailable: { action: 'retry', maxRetries: 2, baseDelayMs: 1500 },
+  schema_parse: { action: 'retry', maxRetries: 1, baseDelayMs: 0 },
+  safety_blocked: { action: 'skip', maxRetries: 0, baseDelayMs: 0 },
+  invalid_input: { action: 'stop', maxRetries: 0, baseDelayMs: 0 },
+  unknown: { action: 'skip', maxRetries: 0, baseDelayMs: 0 },
+};
+
+interface ErrorText {
+  title: string;
+  description: string; // For a retry policy, shown while the clip is being retried
+  exhaustedDescription?: string; // Retry policies only: shown once the retries have run out
+}
+
+const ERROR_TEXT: Record<Locale, Record<AnalysisErrorCode, ErrorText>> = {
+  en: {
+    rate_limited: {
+      title: 'Too Many Requests',
+      description: 'The AI service is rate limiting us. Retrying shortly; your session will keep running.',
+      exhaustedDescription: 'The AI service is still rate limiting us. Skipping this clip; your session will keep running.',
+    },
+    timeout: {
+      title: 'Analysis Timed Out',
+      description: 'The AI took too long to respond. Retrying this clip.',
+      exhaustedDescription: 'The AI took too long to respond again. Skipping this clip.',
+    },
+    model_unavailable: {
+      title: 'AI Temporarily Unavailable',
+      description: 'The AI service is overloaded or down. Retrying shortly.',
+      exhaustedDescription: 'The AI service is still overloaded or down. Skipping this clip.',
+    },
+    schema_parse: {
+      title: 'Unreadable AI Response',
+      description: 'The AI returned a response we could not read. Trying this clip again.',
+      exhaustedDescription: 'The AI returned a response we could not read. Skipping this clip.',
+    },
+    safety_blocked: {
+      title: 'Clip Blocked',
+      description: "The AI provider's safety filters blocked this clip. Make sure only you are in frame; analysis continues with the next clip.",
+    },
+    invalid_input: {
+      title: 'Invalid Request',
+      description: 'The captured clip was rejected by the AI service, so analysis has stopped.',
+    },
+    unknown: {
+      title: 'Analysis Error',
+      description: 'Something went wrong analyzing this clip. Trying again with the next one.',
+    },
+  },
+  es: {
+    rate_limited: {
+      title: 'Demasiadas solicitudes',
+      description: 'El servicio de IA está limitando las solicitudes. Reintentando en breve; tu sesión sigue en marcha.',
+      exhaustedDescription: 'El servicio de IA sigue limitando las solicitudes. Se omite este clip; tu sesión sigue en marcha.',
+    },
+    timeout: {
+      title: 'El análisis tardó demasiado',
+      description: 'La IA tardó demasiado en responder. Reintentando este clip.',
+      exhaustedDescription: 'La IA volvió a tardar demasiado en responder. Se omite este clip.',
+    },
+    model_unavailable: {
+      title: 'IA no disponible temporalmente',
+      description: 'El servicio de IA está saturado o caído. Reintentando en breve.',
+      exhaustedDescription: 'El servicio de IA sigue saturado o caído. Se omite este clip.',
+    },
+    schema_parse: {
+      title: 'Respuesta de la IA ilegible',
+      description: 'La IA devolvió una respuesta que no pudimos leer. Probando este clip de nuevo.',
+      exhaustedDescription: 'La IA devolvió una respuesta que no pudimos leer. Se omite este clip.',
+    },
+    safety_blocked: {
+      title: 'Clip bloqueado',
+      description: 'Los filtros de seguridad del proveedor de IA bloquearon este clip. Asegúrate de que solo tú estés en la imagen; el análisis sigue con el siguiente clip.',
+    },
+    invalid_input: {
+      title: 'Solicitud no válida',
+      description: 'El servicio de IA rechazó el clip capturado, así que el análisis se ha detenido.',
+    },
+    unknown: {
+      title: 'Error de análisis',
+      description: 'Algo salió mal al analizar este clip. Se intentará de nuevo con el siguiente.',
+    },
+  },
+  de: {
+    rate_limited: {
+      title: 'Zu viele Anfragen',
+      description: 'Der KI-Dienst drosselt unsere Anfragen. Gleich neuer Versuch; deine Sitzung läuft weiter.',
+      exhaustedDescription: 'Der KI-Dienst drosselt unsere Anfragen weiterhin. Dieser Clip wird übersprungen; deine Sitzung läuft weiter.',
+    },
+    timeout: {
+      title: 'Zeitüberschreitung bei der Analyse',
+      description: 'Die KI hat zu lange gebraucht. Dieser Clip wird erneut versucht.',
+      exhaustedDescription: 'Die KI hat wieder zu lange gebraucht. Dieser Clip wird übersprungen.',
+    },
+    model_unavailable: {
+      title: 'KI vorübergehend nicht verfügbar',
+      description: 'Der KI-Dienst ist überlastet oder ausgefallen. Gleich neuer Versuch.',
+      exhaustedDescription: 'Der KI-Dienst ist weiterhin überlastet oder ausgefallen. Dieser Clip wird übersprungen.',
+    },
+    schema_parse: {
+      title: 'Unlesbare KI-Antwort',
+      description: 'Die KI hat eine Antwort geliefert, die wir nicht lesen konnten. Dieser Clip wird erneut versucht.',
+      exhaustedDescription: 'Die KI hat eine Antwort geliefert, die wir nicht lesen konnten. Dieser Clip wird übersprungen.',
+    },
+    safety_blocked: {
+      title: 'Clip blockiert',
+      description: 'Die Sicherheitsfilter des KI-Anbieters haben diesen Clip blockiert. Achte darauf, dass nur du im Bild bist; die Analyse geht mit dem nächsten Clip weiter.',
+    },
+    invalid_input: {
+      title: 'Ungültige Anfrage',
+      description: 'Der KI-Dienst hat den aufgenommenen Clip abgelehnt, daher wurde die Analyse beendet.',
+    },
+    unknown: {
+      title: 'Analysefehler',
+      description: 'Bei der Analyse dieses Clips ist etwas schiefgegangen. Nächster Versuch mit dem folgenden Clip.',
+    },
+  },
+};
+
+// More specific wording for requests the server rejected before calling the model
+const INPUT_REJECTION_DESCRIPTIONS: Record<Locale, Record<InputRejectionReason, string>> = {
+  en: {
+    malformed_frame: 'A captured frame was corrupted in transit, so analysis has stopped. Try starting again.',
+    unsupported_mime_type: 'This browser captured frames in an image format the server does not accept (JPEG, PNG or WebP).',
+    frame_too_large: 'A captured frame was too large to send. Try a lower camera resolution.',
+    undecodable_image: 'A captured frame could not be read as an image, so analysis has stopped. Try starting again.',
+    too_many_frames: 'The captured clip had too many frames to analyze at once.',
+    clip_too_large: 'The captured clip was too large to send. Try a lower camera resolution.',
+    unknown_exercise: 'The selected exercise is not one we can analyze. Pick an exercise from the list.',
+  },
+  es: {
+    malformed_frame: 'Un fotograma capturado se dañó durante el envío, así que el análisis se ha detenido. Prueba a empezar de nuevo.',
+    unsupported_mime_type: 'Este navegador capturó los fotogramas en un formato de imagen que el servidor no acepta (JPEG, PNG o WebP).',
+    frame_too_large: 'Un fotograma capturado era demasiado grande para enviarlo. Prueba con una resolución de cámara más baja.',
+    undecodable_image: 'Un fotograma capturado no se pudo leer como imagen, así que el análisis se ha detenido. Prueba a empezar de nuevo.',
+    too_many_frames: 'El clip capturado tenía demasiados fotogramas para analizarlos a la vez.',
+    clip_too_large: 'El clip capturado era demasiado grande para enviarlo. Prueba con una resolución de cámara más baja.',
+    unknown_exercise: 'No podemos analizar el ejercicio seleccionado. Elige un ejercicio de la lista.',
+  },
+  de: {
+    malformed_frame: 'Ein aufgenommenes Bild wurde bei der Übertragung beschädigt, daher wurde die Analyse beendet. Starte sie erneut.',
+    unsupported_mime_type: 'Dieser Browser nimmt Bilder in einem Format auf, das der Server nicht annimmt (JPEG, PNG oder WebP).',
+    frame_too_large: 'Ein aufgenommenes Bild war zu groß zum Senden. Versuche eine niedrigere Kameraauflösung.',
+    undecodable_image: 'Ein aufgenommenes Bild konnte nicht gelesen werden, daher wurde die Analyse beendet. Starte sie erneut.',
+    too_many_frames: 'Der aufgenommene Clip hatte zu viele Bilder, um sie auf einmal zu analysieren.',
+    clip_too_large: 'Der aufgenommene Clip war zu groß zum Senden. Versuche eine niedrigere Kameraauflösung.',
+    unknown_exercise: 'Die gewählte Übung können wir nicht analysieren. Wähle eine Übung aus der Liste.',
+  },
+};
+
+/**
+ * The title and message to show the user for an error that is not going to be retried (any more).
+ */
+export function describeAnalysisError(error: AnalysisError, locale: Locale = DEFAULT_LOCALE): { title: string; description: string } {
+  const text = ERROR_TEXT[locale][error.code];
+  return {
+    title: text.title,
+    description: error.reason ? INPUT_REJECTION_DESCRIPTIONS[locale][error.reason] : text.exhaustedDescription ?? text.description,
+  };
+}
+
+/**
+ * The title and message to show the user while a clip that failed with `error` is being retried.
+ */
+export function describeRetry(error: AnalysisError, locale: Locale = DEFAULT_LOCALE): { title: string; description: string } {
+  const { title, description } = ERROR_TEXT[locale][error.code];
+  return { title, description };
+}
+
+export const MAX_CONSECUTIVE_FAILED_CYCLES = 3; // Even skippable errors end the session if nothing is getting through
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with up to 20% jitter,
+ * but never sooner than the provider asked for.
+ */
+export function retryDelayMs(policy: ErrorPolicy, attempt: number, error: AnalysisError): number {
+  const backoff = policy.baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.2);
+  return Math.round(Math.max(backoff, error.retryAfterMs ?? 0));
+}
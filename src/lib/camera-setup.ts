@@ -0,0 +1,150 @@
+import type { ExerciseType } from '@/lib/exercises';
+import type { FramingProblem } from '@/lib/frame-quality';
+import type { Locale } from '@/lib/locales';
+
+/**
+ * Which way the user faces relative to the camera, as seen by the framing check flow.
+ */
+export const CAMERA_VIEWS = ['front', 'side', 'back', 'unclear'] as const;
+export type CameraView = (typeof CAMERA_VIEWS)[number];
+
+export const CAMERA_VIEW_LABELS: Record<Locale, Record<CameraView, string>> = {
+  en: {
+    front: 'facing the camera',
+    side: 'side-on to the camera',
+    back: 'facing away from the camera',
+    unclear: 'at an unclear angle',
+  },
+  es: {
+    front: 'de frente a la cámara',
+    side: 'de lado a la cámara',
+    back: 'de espaldas a la cámara',
+    unclear: 'en un ángulo poco claro',
+  },
+  de: {
+    front: 'frontal zur Kamera',
+    side: 'seitlich zur Kamera',
+    back: 'mit dem Rücken zur Kamera',
+    unclear: 'in einem unklaren Winkel',
+  },
+};
+
+// Shown in the language of the session, like the framing tips
+export interface CameraSetupGuide {
+  view: 'front' | 'side' | null; // null when any angle works
+  distance: Record<Locale, string>;
+  height: Record<Locale, string>;
+  why: Record<Locale, string>;
+}
+
+const HIP_HEIGHT: Record<Locale, string> = { en: 'hip height', es: 'a la altura de la cadera', de: 'auf Hüfthöhe' };
+const NEAR_FLOOR: Record<Locale, string> = {
+  en: 'close to the floor, about 30 cm up',
+  es: 'cerca del suelo, a unos 30 cm',
+  de: 'knapp über dem Boden, etwa 30 cm hoch',
+};
+const HEAD_TO_HEELS: Record<Locale, string> = {
+  en: '2-2.5 m away, so you fit from head to heels',
+  es: 'a 2-2,5 m, para que se te vea de la cabeza a los talones',
+  de: '2-2,5 m entfernt, damit du von Kopf bis Ferse im Bild bist',
+};
+
+export const CAMERA_SETUP_GUIDES: Record<ExerciseType, CameraSetupGuide> = {
+  Squat: {
+    view: 'side',
+    distance: {
+      en: '2.5-3 m away, so your whole body fits with space above your head',
+      es: 'a 2,5-3 m, para que se vea todo tu cuerpo con espacio sobre la cabeza',
+      de: '2,5-3 m entfernt, damit dein ganzer Körper mit Platz über dem Kopf im Bild ist',
+    },
+    height: HIP_HEIGHT,
+    why: {
+      en: 'Depth, back angle and how far your knees travel forward are only visible from the side.',
+      es: 'La profundidad, el ángulo de la espalda y cuánto avanzan las rodillas solo se ven de lado.',
+      de: 'Tiefe, Rückenwinkel und wie weit die Knie nach vorn wandern, sind nur von der Seite sichtbar.',
+    },
+  },
+  'Push-up': {
+    view: 'side',
+    distance: HEAD_TO_HEELS,
+    height: NEAR_FLOOR,
+    why: {
+      en: 'A sagging or piked body line and elbow depth are only visible from the side.',
+      es: 'Una línea corporal hundida o elevada y la profundidad de los codos solo se ven de lado.',
+      de: 'Eine durchhängende oder abknickende Körperlinie und die Ellbogentiefe sind nur von der Seite sichtbar.',
+    },
+  },
+  Lunge: {
+    view: 'side',
+    distance: {
+      en: '2.5-3 m away, with room for your full stride',
+      es: 'a 2,5-3 m, con espacio para toda la zancada',
+      de: '2,5-3 m entfernt, mit Platz für deinen ganzen Schritt',
+    },
+    height: HIP_HEIGHT,
+    why: {
+      en: 'Stride length, torso angle and knee position over the foot are clearest from the side.',
+      es: 'La longitud de la zancada, el ángulo del torso y la rodilla sobre el pie se ven mejor de lado.',
+      de: 'Schrittlänge, Oberkörperwinkel und Knieposition über dem Fuß sind von der Seite am deutlichsten.',
+    },
+  },
+  Plank: {
+    view: 'side',
+    distance: HEAD_TO_HEELS,
+    height: NEAR_FLOOR,
+    why: {
+      en: 'Hip sag or pike is only visible from the side.',
+      es: 'Si la cadera se hunde o se eleva solo se ve de lado.',
+      de: 'Ob die Hüfte durchhängt oder zu hoch ist, ist nur von der Seite sichtbar.',
+    },
+  },
+  'Bicep Curl': {
+    view: 'front',
+    distance: {
+      en: '2-2.5 m away, so you fit from head to knees',
+      es: 'a 2-2,5 m, para que se te vea de la cabeza a las rodillas',
+      de: '2-2,5 m entfernt, damit du von Kopf bis Knie im Bild bist',
+    },
+    height: { en: 'chest height', es: 'a la altura del pecho', de: 'auf Brusthöhe' },
+    why: {
+      en: 'Both arms, elbow drift and shoulder shrugging are visible at once from the front.',
+      es: 'De frente se ven a la vez ambos brazos, si los codos se desplazan y si encoges los hombros.',
+      de: 'Von vorn sind beide Arme, wandernde Ellbogen und hochgezogene Schultern gleichzeitig sichtbar.',
+    },
+  },
+};
+
+// Used before an exercise is known, e.g. in auto-detect mode
+export const DEFAULT_CAMERA_SETUP_GUIDE: CameraSetupGuide = {
+  view: null,
+  distance: {
+    en: '2.5-3 m away, so your whole body fits with space around it',
+    es: 'a 2,5-3 m, para que se vea todo tu cuerpo con espacio alrededor',
+    de: '2,5-3 m entfernt, damit dein ganzer Körper mit Platz drumherum im Bild ist',
+  },
+  height: HIP_HEIGHT,
+  why: {
+    en: 'The whole body needs to be in view to recognize the exercise and judge your form.',
+    es: 'Todo el cuerpo debe verse para reconocer el ejercicio y evaluar tu técnica.',
+    de: 'Der ganze Körper muss im Bild sein, um die Übung zu erkennen und deine Technik zu beurteilen.',
+  },
+};
+
+/**
+ * The result of checking a live frame against the setup guide.
+ * `view` is null when only the lighting could be checked.
+ */
+export interface CameraSetupCheck {
+  view: CameraView | null;
+  problems: FramingProblem[];
+  missingBodyRegions: string[];
+}
+
+export type CameraSetupStatus = 'unchecked' | 'checking' | 'passed' | 'failed' | 'overridden';
+
+export const isViewAcceptable = (guide: CameraSetupGuide, view: CameraView | null): boolean =>
+  guide.view === null || view === null || view === guide.view;
+
+export function isSetupAcceptable(guide: CameraSetupGuide, check: CameraSetupCheck): boolean {
+  return check.problems.length === 0 && isViewAcceptable(guide, check.view);
+}
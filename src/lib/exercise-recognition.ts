@@ -0,0 +1,46 @@
+import type { ExerciseType } from '@/lib/exercises';
+
+export const RECOGNITION_MIN_CONFIDENCE = 0.7; // Below this a detection is shown but never acted on
+export const AUTO_SWITCH_STREAK = 2; // Confident detections in a row needed before auto mode switches mid-session
+export const RECOGNITION_EVERY_N_CYCLES = 3; // Recognition runs on every Nth analysis clip once an exercise is known
+
+export interface Detection {
+  exerciseType: ExerciseType | null;
+  confidence: number;
+}
+
+export interface RecognitionTracker {
+  last: Detection | null;
+  streak: number; // Consecutive confident detections of `last.exerciseType`
+}
+
+export const INITIAL_RECOGNITION_TRACKER: RecognitionTracker = { last: null, streak: 0 };
+
+export const isConfident = (detection: Detection | null): detection is Detection & { exerciseType: ExerciseType } =>
+  !!detection?.exerciseType && detection.confidence >= RECOGNITION_MIN_CONFIDENCE;
+
+export function trackDetection(tracker: RecognitionTracker, detection: Detection): RecognitionTracker {
+  if (!isConfident(detection)) {
+    return { last: detection, streak: 0 };
+  }
+  const continues = isConfident(tracker.last) && tracker.last.exerciseType === detection.exerciseType;
+  return { last: detection, streak: continues ? tracker.streak + 1 : 1 };
+}
+
+/**
+ * The exercise the detection disagrees with the selection on, if it is confident enough to warn about.
+ */
+export function mismatchedExercise(selected: string, detection: Detection | null): ExerciseType | null {
+  return isConfident(detection) && selected && detection.exerciseType !== selected ? detection.exerciseType : null;
+}
+
+/**
+ * Whether auto mode should switch the selection to the tracked detection: immediately when nothing is
+ * selected yet, otherwise only once the disagreement has held for AUTO_SWITCH_STREAK clips.
+ */
+export function shouldAutoSwitch(selected: string, tracker: RecognitionTracker): ExerciseType | null {
+  if (!isConfident(tracker.last) || tracker.last.exerciseType === selected) {
+    return null;
+  }
+  return !selected || tracker.streak >= AUTO_SWITCH_STREAK ? tracker.last.exerciseType : null;
+}
@@ -0,0 +1,10 @@
+/**
+ * The catalog of exercises GymSight can analyze.
+ */
+export const EXERCISES = ['Squat', 'Push-up', 'Lunge', 'Plank', 'Bicep Curl'] as const;
+
+export type ExerciseType = (typeof EXERCISES)[number];
+
+export function isExerciseType(value: string): value is ExerciseType {
+  return (EXERCISES as readonly string[]).includes(value);
+}
@@ -0,0 +1,83 @@
+import type { BodyRegion, FormIssue, IssueSeverity } from '@/ai/flows/analyze-exercise-form';
+import type { Locale } from '@/lib/locales';
+
+// Where an issue can be; shared by the analysis flow's schema and the evaluation dataset's labels
+export const BODY_REGIONS = [
+  'head',
+  'neck',
+  'shoulders',
+  'chest',
+  'upper back',
+  'lower back',
+  'core',
+  'hips',
+  'elbows',
+  'wrists',
+  'knees',
+  'ankles',
+  'feet',
+] as const;
+
+// Shown next to each issue; the model reports regions in English whatever the feedback language
+export const BODY_REGION_LABELS: Record<Locale, Record<BodyRegion, string>> = {
+  en: {
+    head: 'head',
+    neck: 'neck',
+    shoulders: 'shoulders',
+    chest: 'chest',
+    'upper back': 'upper back',
+    'lower back': 'lower back',
+    core: 'core',
+    hips: 'hips',
+    elbows: 'elbows',
+    wrists: 'wrists',
+    knees: 'knees',
+    ankles: 'ankles',
+    feet: 'feet',
+  },
+  es: {
+    head: 'cabeza',
+    neck: 'cuello',
+    shoulders: 'hombros',
+    chest: 'pecho',
+    'upper back': 'espalda alta',
+    'lower back': 'zona lumbar',
+    core: 'core',
+    hips: 'caderas',
+    elbows: 'codos',
+    wrists: 'muñecas',
+    knees: 'rodillas',
+    ankles: 'tobillos',
+    feet: 'pies',
+  },
+  de: {
+    head: 'Kopf',
+    neck: 'Nacken',
+    shoulders: 'Schultern',
+    chest: 'Brust',
+    'upper back': 'oberer Rücken',
+    'lower back': 'unterer Rücken',
+    core: 'Rumpf',
+    hips: 'Hüfte',
+    elbows: 'Ellbogen',
+    wrists: 'Handgelenke',
+    knees: 'Knie',
+    ankles: 'Sprunggelenke',
+    feet: 'Füße',
+  },
+};
+
+export const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Orders issues most important first: by severity, then by the model's confidence.
+ */
+export function rankIssues(issues: FormIssue[]): FormIssue[] {
+  return [...issues].sort(
+    (a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.confidence - a.confidence
+  );
+}
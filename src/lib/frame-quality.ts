@@ -0,0 +1,126 @@
+import type { Locale } from '@/lib/locales';
+import type { LumaFrame } from '@/lib/luma';
+
+/**
+ * Problems with how the user is framed or lit that make form feedback unreliable.
+ * The lighting ones are detected in the browser; the rest need the framing check flow to look at the picture.
+ */
+export const FRAMING_PROBLEMS = [
+  'too-dark',
+  'too-bright',
+  'backlit',
+  'low-contrast',
+  'no-person',
+  'joints-hidden',
+  'too-far',
+  'too-close',
+] as const;
+export type FramingProblem = (typeof FRAMING_PROBLEMS)[number];
+
+// Shown in the language the feedback is written in
+export const FRAMING_TIPS: Record<Locale, Record<FramingProblem, { title: string; tip: string }>> = {
+  en: {
+    'too-dark': { title: 'Too dark', tip: 'Turn on more lights or face a window so the camera can see you clearly.' },
+    'too-bright': { title: 'Overexposed', tip: 'Move out of direct sunlight or away from bright lamps pointing at the camera.' },
+    backlit: { title: 'Backlit', tip: 'There is a bright light behind you. Turn the camera so the light is in front of you instead.' },
+    'low-contrast': { title: 'Picture is washed out', tip: 'Check the lens is clean and uncovered, and avoid a background the same color as your clothes.' },
+    'no-person': { title: 'Nobody in frame', tip: 'Step into view of the camera before starting your set.' },
+    'joints-hidden': { title: 'Body partly out of frame', tip: 'Move back or tilt the camera so the body parts listed below stay in view for the whole rep.' },
+    'too-far': { title: 'Too far away', tip: 'Move closer so your body fills most of the height of the picture.' },
+    'too-close': { title: 'Too close', tip: 'Step back so your whole body fits in the picture with a little space around it.' },
+  },
+  es: {
+    'too-dark': { title: 'Demasiado oscuro', tip: 'Enciende más luces o ponte de cara a una ventana para que la cámara te vea con claridad.' },
+    'too-bright': { title: 'Sobreexpuesto', tip: 'Apártate de la luz solar directa o de las lámparas potentes que apuntan a la cámara.' },
+    backlit: { title: 'Contraluz', tip: 'Hay una luz intensa detrás de ti. Gira la cámara para que la luz te quede delante.' },
+    'low-contrast': { title: 'Imagen descolorida', tip: 'Comprueba que la lente esté limpia y destapada, y evita un fondo del mismo color que tu ropa.' },
+    'no-person': { title: 'No hay nadie en la imagen', tip: 'Ponte delante de la cámara antes de empezar la serie.' },
+    'joints-hidden': { title: 'Cuerpo parcialmente fuera de la imagen', tip: 'Aléjate o inclina la cámara para que las partes del cuerpo indicadas abajo se vean durante toda la repetición.' },
+    'too-far': { title: 'Demasiado lejos', tip: 'Acércate para que tu cuerpo ocupe casi toda la altura de la imagen.' },
+    'too-close': { title: 'Demasiado cerca', tip: 'Retrocede para que todo tu cuerpo quepa en la imagen con algo de espacio alrededor.' },
+  },
+  de: {
+    'too-dark': { title: 'Zu dunkel', tip: 'Schalte mehr Licht ein oder stell dich zum Fenster, damit die Kamera dich deutlich sieht.' },
+    'too-bright': { title: 'Überbelichtet', tip: 'Geh aus dem direkten Sonnenlicht oder weg von hellen Lampen, die auf die Kamera gerichtet sind.' },
+    backlit: { title: 'Gegenlicht', tip: 'Hinter dir ist eine helle Lichtquelle. Dreh die Kamera so, dass das Licht von vorne kommt.' },
+    'low-contrast': { title: 'Bild ist blass', tip: 'Prüfe, ob das Objektiv sauber und frei ist, und vermeide einen Hintergrund in der Farbe deiner Kleidung.' },
+    'no-person': { title: 'Niemand im Bild', tip: 'Stell dich vor die Kamera, bevor du mit dem Satz beginnst.' },
+    'joints-hidden': { title: 'Körper teilweise nicht im Bild', tip: 'Geh ein Stück zurück oder neige die Kamera, damit die unten genannten Körperteile die ganze Wiederholung über zu sehen sind.' },
+    'too-far': { title: 'Zu weit weg', tip: 'Komm näher, sodass dein Körper fast die ganze Bildhöhe ausfüllt.' },
+    'too-close': { title: 'Zu nah', tip: 'Geh zurück, sodass dein ganzer Körper mit etwas Abstand ins Bild passt.' },
+  },
+};
+
+/**
+ * Brightness statistics of one captured frame, measured on its low-resolution luma snapshot.
+ */
+export interface FrameQualityStats {
+  brightness: number; // Mean luma, 0-255
+  contrast: number; // Standard deviation of luma
+  backlight: number; // How much brighter the edges of the picture are than its center
+}
+
+const TOO_DARK_BRIGHTNESS = 45;
+const TOO_BRIGHT_BRIGHTNESS = 215;
+const LOW_CONTRAST = 12;
+const BACKLIT_DIFFERENCE = 70;
+
+export function measureFrameQuality({ width, height, luma }: LumaFrame): FrameQualityStats {
+  let sum = 0;
+  let sumSquares = 0;
+  let centerSum = 0;
+  let centerCount = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luma[y * width + x];
+      sum += value;
+      sumSquares += value * value;
+      // The middle half of the picture in each direction, where the user usually is
+      if (x >= width / 4 && x < (width * 3) / 4 && y >= height / 4 && y < (height * 3) / 4) {
+        centerSum += value;
+        centerCount++;
+      }
+    }
+  }
+  const count = width * height;
+  const brightness = count > 0 ? sum / count : 0;
+  const centerMean = centerCount > 0 ? centerSum / centerCount : brightness;
+  const edgeCount = count - centerCount;
+  const edgeMean = edgeCount > 0 ? (sum - centerSum) / edgeCount : brightness;
+  return {
+    brightness,
+    contrast: count > 0 ? Math.sqrt(Math.max(0, sumSquares / count - brightness * brightness)) : 0,
+    backlight: Math.max(0, edgeMean - centerMean),
+  };
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * The lighting problems of a clip, judged on the median frame so one flicker or passing shadow doesn't count.
+ * Frames without stats are ignored; a clip with none passes.
+ */
+export function assessLighting(stats: Array<FrameQualityStats | undefined>): FramingProblem[] {
+  const measured = stats.filter((frame): frame is FrameQualityStats => frame !== undefined);
+  if (measured.length === 0) {
+    return [];
+  }
+  const brightness = median(measured.map(frame => frame.brightness));
+  const contrast = median(measured.map(frame => frame.contrast));
+  const backlight = median(measured.map(frame => frame.backlight));
+
+  const problems: FramingProblem[] = [];
+  if (brightness < TOO_DARK_BRIGHTNESS) {
+    problems.push('too-dark');
+  } else if (brightness > TOO_BRIGHT_BRIGHTNESS) {
+    problems.push('too-bright');
+  } else if (backlight > BACKLIT_DIFFERENCE) {
+    problems.push('backlit');
+  } else if (contrast < LOW_CONTRAST) {
+    problems.push('low-contrast');
+  }
+  return problems;
+}
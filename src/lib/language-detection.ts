@@ -0,0 +1,47 @@
+import { SUPPORTED_LOCALES, type Locale } from '@/lib/locales';
+
+// Common function words of each language. Coaching text is short, so these carry most of the signal.
+const STOPWORDS: Record<Locale, ReadonlySet<string>> = {
+  en: new Set([
+    'the', 'and', 'your', 'you', 'is', 'are', 'to', 'of', 'in', 'on', 'with', 'keep', 'as', 'at', 'it',
+    'this', 'that', 'not', 'too', 'be', 'while', 'from', 'during', 'good', 'form', 'back', 'knees',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'tu', 'tus', 'de', 'del', 'en', 'con', 'es', 'está', 'que', 'por',
+    'para', 'una', 'un', 'mantén', 'al', 'se', 'no', 'muy', 'durante', 'espalda', 'rodillas', 'forma',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'und', 'dein', 'deine', 'deinen', 'ist', 'sind', 'zu', 'mit', 'im', 'in', 'auf',
+    'nicht', 'halte', 'beim', 'den', 'dem', 'ein', 'eine', 'während', 'sehr', 'rücken', 'knie', 'form',
+  ]),
+};
+
+// Letters that only occur in one of the supported languages
+const MARKER_CHARACTERS: Partial<Record<Locale, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+};
+
+const MIN_HITS = 3; // Fewer than this and the text is too short to judge
+const MIN_LEAD = 1.5; // The top language must score this many times the runner-up
+
+/**
+ * Guesses which supported language a text is written in, or returns null when it is too short or too
+ * mixed to tell. A stopword heuristic: good enough to catch a model answering in the wrong language.
+ */
+export function detectLanguage(text: string): Locale | null {
+  const lowered = text.toLowerCase();
+  const words = lowered.match(/\p{L}+/gu) ?? [];
+  const scores = SUPPORTED_LOCALES.map(locale => {
+    const stopwordHits = words.filter(word => STOPWORDS[locale].has(word)).length;
+    const marker = MARKER_CHARACTERS[locale];
+    const markerHits = marker ? (lowered.match(marker)?.length ?? 0) : 0;
+    return { locale, score: stopwordHits + markerHits };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score < MIN_HITS || best.score < runnerUp.score * MIN_LEAD) {
+    return null;
+  }
+  return best.locale;
+}
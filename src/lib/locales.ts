@@ -0,0 +1,56 @@
+export const SUPPORTED_LOCALES = ['en', 'es', 'de'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language picker, in the language itself
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+// How prompts name the language the model should write in
+export const LOCALE_LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+};
+
+export const isLocale = (value: string): value is Locale => (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/**
+ * The first supported locale among the browser's preferred languages, matched on the primary subtag
+ * (e.g. 'es-MX' -> 'es'), or the default when none is supported.
+ */
+export function detectBrowserLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.split('-')[0].toLowerCase();
+    if (isLocale(primary)) {
+      return primary;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+const LOCALE_STORAGE_KEY = 'gymsight.locale'; // The user's explicit language choice, if they made one
+
+/**
+ * The language the user chose in this browser; null if they never chose one or storage is blocked.
+ */
+export function loadSavedLocale(): Locale | null {
+  try {
+    const saved = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    return saved && isLocale(saved) ? saved : null;
+  } catch {
+    return null; // Storage is blocked
+  }
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (err) {
+    console.warn('Could not save the language choice:', err); // Storage full or blocked; it still applies this visit
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * A small grayscale snapshot of the camera feed, used for cheap client-side motion analysis.
+ */
+export interface LumaFrame {
+  timestampMs: number; // Capture time, in milliseconds since the Unix epoch
+  width: number;
+  height: number;
+  luma: Uint8ClampedArray; // One 0-255 brightness value per pixel, row-major
+}
+
+/**
+ * Converts RGBA canvas pixels to per-pixel luma (Rec. 601 weights).
+ */
+export function toLuma(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  const luma = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+}
+
+/**
+ * Mean absolute per-pixel difference between two equally sized luma buffers, in the 0-255 range.
+ */
+export function meanAbsoluteDifference(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return a.length > 0 ? total / a.length : 0;
+}
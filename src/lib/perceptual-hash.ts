@@ -0,0 +1,57 @@
+import type { LumaFrame } from '@/lib/luma';
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash (dHash) of a luma frame, as 16 hex digits.
+ * The frame is box-averaged down to 9x8 and each bit records whether a cell is brighter than its right neighbour,
+ * so the hash survives small shifts in exposure and compression noise but changes when the scene does.
+ */
+export function differenceHash(frame: LumaFrame): string {
+  const columns = HASH_WIDTH + 1;
+  const cells = new Float64Array(columns * HASH_HEIGHT);
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    const y0 = Math.floor((row * frame.height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * frame.height) / HASH_HEIGHT));
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.floor((column * frame.width) / columns);
+      const x1 = Math.max(x0 + 1, Math.floor(((column + 1) * frame.width) / columns));
+      let total = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          total += frame.luma[y * frame.width + x];
+        }
+      }
+      cells[row * columns + column] = total / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    for (let nibble = 0; nibble < HASH_WIDTH / 4; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const column = nibble * 4 + bit;
+        value = (value << 1) | (cells[row * columns + column] < cells[row * columns + column + 1] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes of equal length (0 means identical, 64 means opposite).
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
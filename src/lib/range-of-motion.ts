@@ -0,0 +1,65 @@
+import type { RangeOfMotionReading } from '@/ai/flows/analyze-exercise-form';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/locales';
+
+interface RangeText {
+  atMost: (degrees: number) => string;
+  atLeast: (degrees: number) => string;
+  any: string;
+  sides: Record<'left' | 'right', string>;
+  aimFor: (range: string) => string;
+}
+
+const RANGE_TEXT: Record<Locale, RangeText> = {
+  en: {
+    atMost: degrees => `${degrees}° or less`,
+    atLeast: degrees => `at least ${degrees}°`,
+    any: 'any angle',
+    sides: { left: 'left', right: 'right' },
+    aimFor: range => `aim for ${range}`,
+  },
+  es: {
+    atMost: degrees => `${degrees}° o menos`,
+    atLeast: degrees => `al menos ${degrees}°`,
+    any: 'cualquier ángulo',
+    sides: { left: 'izquierda', right: 'derecha' },
+    aimFor: range => `busca ${range}`,
+  },
+  de: {
+    atMost: degrees => `höchstens ${degrees}°`,
+    atLeast: degrees => `mindestens ${degrees}°`,
+    any: 'beliebiger Winkel',
+    sides: { left: 'links', right: 'rechts' },
+    aimFor: range => `Ziel: ${range}`,
+  },
+};
+
+/**
+ * The range a full rep should reach, e.g. "100° or less", "at least 160°" or "75-105°".
+ */
+export function describeExpectedRange(
+  { minDegrees, maxDegrees }: Pick<RangeOfMotionReading, 'minDegrees' | 'maxDegrees'>,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  if (minDegrees !== undefined && maxDegrees !== undefined) {
+    return `${minDegrees}-${maxDegrees}°`;
+  }
+  if (maxDegrees !== undefined) {
+    return RANGE_TEXT[locale].atMost(maxDegrees);
+  }
+  return minDegrees !== undefined ? RANGE_TEXT[locale].atLeast(minDegrees) : RANGE_TEXT[locale].any;
+}
+
+/**
+ * The reading's label, with the side when it was measured on one, e.g. "Elbow angle at the top (left)".
+ */
+export const readingLabel = (reading: Pick<RangeOfMotionReading, 'label' | 'side'>, locale: Locale = DEFAULT_LOCALE): string =>
+  reading.side === 'both' ? reading.label : `${reading.label} (${RANGE_TEXT[locale].sides[reading.side]})`;
+
+/**
+ * A partial-rep callout with the numbers, e.g. "Knee angle at the bottom 118°, aim for 100° or less".
+ */
+export const describePartialRep = (reading: RangeOfMotionReading, locale: Locale = DEFAULT_LOCALE): string =>
+  `${readingLabel(reading, locale)} ${reading.degrees}°, ${RANGE_TEXT[locale].aimFor(describeExpectedRange(reading, locale))}`;
+
+export const partialReadings = (readings: RangeOfMotionReading[] | undefined): RangeOfMotionReading[] =>
+  (readings ?? []).filter(reading => !reading.withinRange);
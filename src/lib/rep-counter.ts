@@ -0,0 +1,157 @@
+import type { ExerciseType } from '@/lib/exercises';
+import { meanAbsoluteDifference, type LumaFrame } from '@/lib/luma';
+
+export interface RepProfile {
+  minRepMs: number; // Movements shorter than this are treated as noise
+  maxRepMs: number; // Staying away from the start position longer than this means the user repositioned
+}
+
+/**
+ * Rep timing limits per exercise. Isometric holds (Plank) have no reps to count.
+ */
+export const REP_PROFILES: Record<ExerciseType, RepProfile | null> = {
+  Squat: { minRepMs: 800, maxRepMs: 8000 },
+  'Push-up': { minRepMs: 600, maxRepMs: 6000 },
+  Lunge: { minRepMs: 800, maxRepMs: 8000 },
+  Plank: null,
+  'Bicep Curl': { minRepMs: 600, maxRepMs: 6000 },
+};
+
+export interface RepEvent {
+  index: number; // 1-based rep number within the set
+  startMs: number; // Left the start position
+  bottomStartMs: number; // Reached the far end of the movement (bottom of a squat, top of a curl)
+  bottomEndMs: number; // Started returning from the far end
+  endMs: number; // Back in the start position
+  depth: number; // Peak displacement from the start position, 0-1
+}
+
+const SMOOTHING = 0.5; // Weight of the newest sample in the exponential moving average
+const REFERENCE_BLEND = 0.02; // How quickly the start-position reference adapts to lighting drift while at rest
+const INITIAL_AMPLITUDE = 0.08;
+const MIN_ENTER_THRESHOLD = 0.03;
+const MIN_EXIT_THRESHOLD = 0.015;
+const ENTER_RATIO = 0.4; // Fraction of the typical rep amplitude that starts a rep
+const EXIT_RATIO = 0.15; // Fraction of the typical rep amplitude that ends a rep
+const BOTTOM_RATIO = 0.9; // Samples within this fraction of the peak count as "at the bottom"
+const AMPLITUDE_LEARNING_RATE = 0.3;
+
+interface TracePoint {
+  t: number;
+  d: number;
+}
+
+/**
+ * Counts repetitions from a stream of low-resolution luma frames.
+ *
+ * The signal is how far each frame differs from a reference frame of the start position: it
+ * rises as the user moves away from it and falls back as they return. A rep is one excursion
+ * above an entry threshold and back below an exit threshold (hysteresis), with both thresholds
+ * scaled to the amplitude of the reps seen so far.
+ */
+export class RepCounter {
+  private reference: Float32Array | null = null;
+  private smoothed = 0;
+  private amplitude = INITIAL_AMPLITUDE;
+  private inRep = false;
+  private lastRestMs = 0;
+  private trace: TracePoint[] = [];
+  private reps: RepEvent[] = [];
+
+  constructor(private readonly profile: RepProfile) {}
+
+  get count(): number {
+    return this.reps.length;
+  }
+
+  /**
+   * Feeds the next frame. Returns the rep it completed, if any.
+   */
+  push(frame: LumaFrame): RepEvent | null {
+    if (!this.reference || this.reference.length !== frame.luma.length) {
+      this.rebaseline(frame);
+      return null;
+    }
+
+    const raw = meanAbsoluteDifference(frame.luma, this.reference) / 255;
+    this.smoothed = this.smoothed * (1 - SMOOTHING) + raw * SMOOTHING;
+    const d = this.smoothed;
+    const t = frame.timestampMs;
+    const enterThreshold = Math.max(MIN_ENTER_THRESHOLD, this.amplitude * ENTER_RATIO);
+    const exitThreshold = Math.max(MIN_EXIT_THRESHOLD, this.amplitude * EXIT_RATIO);
+
+    if (!this.inRep) {
+      if (d >= enterThreshold) {
+        this.inRep = true;
+        this.trace = [{ t: this.lastRestMs, d: 0 }, { t, d }];
+      } else {
+        this.lastRestMs = t;
+        this.blendReference(frame.luma);
+      }
+      return null;
+    }
+
+    this.trace.push({ t, d });
+    if (t - this.trace[0].t > this.profile.maxRepMs) {
+      // Held away from the start position too long: the user walked off or changed position.
+      this.rebaseline(frame);
+      return null;
+    }
+    if (d > exitThreshold) {
+      return null;
+    }
+
+    this.inRep = false;
+    this.lastRestMs = t;
+    return this.completeRep();
+  }
+
+  reset(): void {
+    this.reference = null;
+    this.smoothed = 0;
+    this.amplitude = INITIAL_AMPLITUDE;
+    this.inRep = false;
+    this.trace = [];
+    this.reps = [];
+  }
+
+  private completeRep(): RepEvent | null {
+    const trace = this.trace;
+    this.trace = [];
+    const startMs = trace[0].t;
+    const endMs = trace[trace.length - 1].t;
+    if (endMs - startMs < this.profile.minRepMs) {
+      return null;
+    }
+
+    const peak = Math.max(...trace.map(point => point.d));
+    const atBottom = trace.filter(point => point.d >= peak * BOTTOM_RATIO);
+    this.amplitude = this.amplitude * (1 - AMPLITUDE_LEARNING_RATE) + peak * AMPLITUDE_LEARNING_RATE;
+
+    const rep: RepEvent = {
+      index: this.reps.length + 1,
+      startMs,
+      bottomStartMs: atBottom[0].t,
+      bottomEndMs: atBottom[atBottom.length - 1].t,
+      endMs,
+      depth: Math.min(1, peak),
+    };
+    this.reps.push(rep);
+    return rep;
+  }
+
+  private rebaseline(frame: LumaFrame): void {
+    this.reference = Float32Array.from(frame.luma);
+    this.smoothed = 0;
+    this.inRep = false;
+    this.trace = [];
+    this.lastRestMs = frame.timestampMs;
+  }
+
+  private blendReference(luma: Uint8ClampedArray): void {
+    const reference = this.reference!;
+    for (let i = 0; i < reference.length; i++) {
+      reference[i] += (luma[i] - reference[i]) * REFERENCE_BLEND;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import type { AnalyzeExerciseFormOutput, RangeOfMotionReading } from '@/ai/flows/analyze-exercise-form';
+import { rankIssues } from '@/lib/form-issues';
+import type { RepEvent } from '@/lib/rep-counter';
+import type { BodySide } from '@/lib/symmetry';
+
+/**
+ * The time span of a clip that was sent for analysis, together with the verdict it received.
+ */
+export interface AnalysisWindow {
+  startMs: number;
+  endMs: number;
+  result: AnalyzeExerciseFormOutput;
+}
+
+export type RepVerdict = 'good' | 'needs-work' | 'unscored';
+
+export interface ScoredRep extends RepEvent {
+  verdict: RepVerdict;
+  cue?: string; // The most important cue from the analysis that scored this rep
+  rangeOfMotion?: RangeOfMotionReading[]; // Joint angles read on this rep's frames, one per measurement and side
+  side?: BodySide; // The working side of a one-sided rep, from the analysis that scored it
+}
+
+export interface SetScore {
+  reps: number;
+  scored: number;
+  good: number;
+  percentGood: number | null; // null until at least one rep has been scored
+}
+
+function overlapMs(rep: RepEvent, window: AnalysisWindow): number {
+  return Math.min(rep.endMs, window.endMs) - Math.max(rep.startMs, window.startMs);
+}
+
+function gapMs(rep: RepEvent, window: AnalysisWindow): number {
+  return Math.max(window.startMs - rep.endMs, rep.startMs - window.endMs, 0);
+}
+
+/**
+ * The range-of-motion readings of each rep, by the time of the frame each was read on. A reading belongs to the
+ * rep it falls in, or to the nearest rep within `maxGapMs` for frames at rest between reps (the lockout of a
+ * push-up). Where a rep has several readings of a measurement and side, a partial one wins.
+ */
+function readingsByRep(reps: RepEvent[], windows: AnalysisWindow[], maxGapMs: number): Map<number, RangeOfMotionReading[]> {
+  const byRep = new Map<number, RangeOfMotionReading[]>();
+  for (const reading of windows.flatMap(window => window.result.rangeOfMotion)) {
+    let nearest: RepEvent | null = null;
+    let nearestGap = maxGapMs;
+    for (const rep of reps) {
+      const gap = Math.max(rep.startMs - reading.timestampMs, reading.timestampMs - rep.endMs, 0);
+      if (nearest ? gap < nearestGap : gap <= nearestGap) {
+        nearest = rep;
+        nearestGap = gap;
+      }
+    }
+    if (!nearest) {
+      continue;
+    }
+    const readings = byRep.get(nearest.index) ?? [];
+    const same = readings.findIndex(other => other.id === reading.id && other.side === reading.side);
+    if (same === -1) {
+      readings.push(reading);
+    } else if (readings[same].withinRange && !reading.withinRange) {
+      readings[same] = reading;
+    }
+    byRep.set(nearest.index, readings);
+  }
+  return byRep;
+}
+
+/**
+ * Attaches a form verdict to each rep from the analyzed clip that saw most of it. Reps that fell
+ * between clips take the verdict of the nearest clip, as long as it is within `maxGapMs`.
+ */
+export function scoreReps(reps: RepEvent[], windows: AnalysisWindow[], maxGapMs: number): ScoredRep[] {
+  const readings = readingsByRep(reps, windows, maxGapMs);
+  return reps.map(rep => {
+    let best: AnalysisWindow | null = null;
+    let bestOverlap = 0;
+    for (const window of windows) {
+      const overlap = overlapMs(rep, window);
+      if (overlap > bestOverlap) {
+        best = window;
+        bestOverlap = overlap;
+      }
+    }
+    if (!best) {
+      let nearestGap = maxGapMs;
+      for (const window of windows) {
+        const gap = gapMs(rep, window);
+        if (gap <= nearestGap) {
+          best = window;
+          nearestGap = gap;
+        }
+      }
+    }
+
+    if (!best) {
+      return { ...rep, verdict: 'unscored' };
+    }
+    const [topIssue] = rankIssues(best.result.issues);
+    return {
+      ...rep,
+      verdict: best.result.formCorrect ? 'good' : 'needs-work',
+      cue: topIssue?.cue,
+      rangeOfMotion: readings.get(rep.index),
+      side: best.result.workingSide,
+    };
+  });
+}
+
+export function scoreSet(reps: ScoredRep[]): SetScore {
+  const scored = reps.filter(rep => rep.verdict !== 'unscored').length;
+  const good = reps.filter(rep => rep.verdict === 'good').length;
+  return {
+    reps: reps.length,
+    scored,
+    good,
+    percentGood: scored > 0 ? Math.round((good / scored) * 100) : null,
+  };
+}
@@ -0,0 +1,89 @@
+import type { SafetyAlert, SafetyHazard } from '@/ai/flows/analyze-exercise-form';
+import type { Locale } from '@/lib/locales';
+
+// Shown in the language the feedback is written in, like the alert's own description and instruction
+export const SAFETY_HAZARD_LABELS: Record<Locale, Record<SafetyHazard, string>> = {
+  en: {
+    'rounded-spine-under-load': 'Rounded spine under load',
+    'knee-collapse': 'Knee collapse',
+    'loss-of-balance': 'Loss of balance',
+    'joint-hyperextension': 'Joint hyperextension',
+    other: 'Risk of injury',
+  },
+  es: {
+    'rounded-spine-under-load': 'Espalda redondeada con carga',
+    'knee-collapse': 'Rodilla que se hunde',
+    'loss-of-balance': 'Pérdida de equilibrio',
+    'joint-hyperextension': 'Hiperextensión articular',
+    other: 'Riesgo de lesión',
+  },
+  de: {
+    'rounded-spine-under-load': 'Runder Rücken unter Last',
+    'knee-collapse': 'Einknickendes Knie',
+    'loss-of-balance': 'Gleichgewichtsverlust',
+    'joint-hyperextension': 'Überstrecktes Gelenk',
+    other: 'Verletzungsgefahr',
+  },
+};
+
+// The safety interrupt's own text around the alert
+export const SAFETY_INTERRUPT_TEXT: Record<Locale, { paused: string; running: string; endSession: string; continue: string }> = {
+  en: {
+    paused: 'Analysis is paused until you continue.',
+    running: 'Analysis is still running.',
+    endSession: 'End Session',
+    continue: "I'm OK, Continue",
+  },
+  es: {
+    paused: 'El análisis está en pausa hasta que continúes.',
+    running: 'El análisis sigue en marcha.',
+    endSession: 'Terminar sesión',
+    continue: 'Estoy bien, continuar',
+  },
+  de: {
+    paused: 'Die Analyse ist pausiert, bis du weitermachst.',
+    running: 'Die Analyse läuft weiter.',
+    endSession: 'Training beenden',
+    continue: 'Alles okay, weiter',
+  },
+};
+
+/**
+ * A safety alert as it was escalated to the user. Kept in its own log, apart from the ordinary cues.
+ */
+export interface SafetyEvent {
+  id: number;
+  timestampMs: number;
+  exerciseType: string;
+  alert: SafetyAlert;
+  paused: boolean; // Whether the session was paused automatically for it
+  locale: Locale; // The language the alert was written in
+}
+
+export const MAX_SAFETY_LOG_ENTRIES = 100; // Oldest events are dropped beyond this
+
+// Alternating high and low tones, unlike anything else the app plays
+const ALARM_TONES_HZ = [880, 660, 880, 660];
+const ALARM_TONE_SECONDS = 0.18;
+
+/**
+ * Plays the safety alarm through Web Audio. Browsers only allow audio after a user gesture, and pressing
+ * Start counts, so the context is created when the session starts and reused here.
+ */
+export function playSafetyAlarm(context: AudioContext): void {
+  const start = context.currentTime;
+  ALARM_TONES_HZ.forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = frequency;
+    const toneStart = start + index * ALARM_TONE_SECONDS;
+    // Short fades avoid clicks at the start and end of each tone
+    gain.gain.setValueAtTime(0, toneStart);
+    gain.gain.linearRampToValueAtTime(0.2, toneStart + 0.01);
+    gain.gain.linearRampToValueAtTime(0, toneStart + ALARM_TONE_SECONDS - 0.01);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + ALARM_TONE_SECONDS);
+  });
+}
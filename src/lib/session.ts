@@ -0,0 +1,2 @@
+// Oldest clips are dropped beyond this, so the report of a longer session covers its most recent hour
+export const MAX_SESSION_CLIPS = 720; // An hour of clips at one every five seconds
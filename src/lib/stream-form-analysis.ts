@@ -0,0 +1,25 @@
+import { streamFlow } from '@genkit-ai/next/client';
+import type { AnalysisResult } from '@/ai/errors';
+import type {
+  AnalyzeExerciseFormInput,
+  AnalyzeExerciseFormOutput,
+  FormFeedbackDraft,
+  streamAnalyzeExerciseFormFlow,
+} from '@/ai/flows/analyze-exercise-form-flow';
+
+const ANALYZE_FORM_ROUTE = '/api/analyze-exercise-form';
+
+/**
+ * Runs form analysis through the streaming route, calling `onDraft` with each partial result as it is generated.
+ * Resolves with the final result; rejects only if the request itself fails (e.g. the network drops).
+ */
+export async function streamFormAnalysis(
+  input: AnalyzeExerciseFormInput,
+  onDraft: (draft: FormFeedbackDraft) => void
+): Promise<AnalysisResult<AnalyzeExerciseFormOutput>> {
+  const { stream, output } = streamFlow<typeof streamAnalyzeExerciseFormFlow>({ url: ANALYZE_FORM_ROUTE, input });
+  for await (const draft of stream) {
+    onDraft(draft);
+  }
+  return output;
+}
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { averageTempo, type Tempo } from '@/lib/tempo';
+
+/**
+ * The side of the body an issue, a joint angle or a one-sided rep belongs to. 'both' covers two-sided
+ * movements and the midline (e.g. the back), and never counts towards either side.
+ */
+export const BODY_SIDES = ['left', 'right', 'both'] as const;
+export type BodySide = (typeof BODY_SIDES)[number];
+export type Side = Exclude<BodySide, 'both'>;
+
+const ROM_IMBALANCE_DEGREES = 10; // Average angles further apart than this are flagged
+const TEMPO_IMBALANCE_RATIO = 0.25; // Reps on one side taking this much longer than the other are flagged
+const ISSUE_IMBALANCE_MIN_DIFFERENCE = 2; // ...as are sides with at least this many more issues than the other
+const MAX_SIDE_CUES = 3;
+
+/**
+ * What one analyzed clip contributes to the symmetry report. Analysis results and session clips both fit.
+ */
+export interface SymmetryClip {
+  exerciseType: string;
+  issues: Array<{ side: BodySide; cue: string }>;
+  rangeOfMotion: Array<{ label: string; side: BodySide; degrees: number }>;
+}
+
+const TempoSchema = z.object({
+  eccentricS: z.number(),
+  pauseS: z.number(),
+  concentricS: z.number(),
+});
+
+// A one-sided rep's measured tempo, e.g. a lunge leading with the left leg
+export const SideRepTempoSchema = z.object({
+  exerciseType: z.string(),
+  side: z.enum(['left', 'right']),
+  tempo: TempoSchema,
+});
+export type SideRepTempo = z.infer<typeof SideRepTempoSchema>;
+
+const SideIssuesSchema = z.object({
+  count: z.number(),
+  cues: z.array(z.string()),
+});
+
+export const SymmetryReportSchema = z.object({
+  exerciseType: z.string(),
+  rangeOfMotion: z.array(
+    z.object({
+      label: z.string(),
+      leftDegrees: z.number().nullable(), // Average over the session; null when that side was never measured
+      rightDegrees: z.number().nullable(),
+      imbalanced: z.boolean(),
+    })
+  ),
+  tempo: z.object({
+    left: TempoSchema.nullable(), // Average over the side's reps
+    right: TempoSchema.nullable(),
+    leftReps: z.number(),
+    rightReps: z.number(),
+    imbalanced: z.boolean(),
+  }),
+  issues: z.object({
+    left: SideIssuesSchema,
+    right: SideIssuesSchema,
+    imbalanced: z.boolean(),
+  }),
+  imbalanced: z.boolean(), // Any of the above is imbalanced
+});
+export type SymmetryReport = z.infer<typeof SymmetryReportSchema>;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const repSeconds = (tempo: Tempo) => tempo.eccentricS + tempo.pauseS + tempo.concentricS;
+
+function sideIssues(clips: SymmetryClip[], side: Side): z.infer<typeof SideIssuesSchema> {
+  const issues = clips.flatMap(clip => clip.issues.filter(issue => issue.side === side));
+  return { count: issues.length, cues: [...new Set(issues.map(issue => issue.cue))].slice(0, MAX_SIDE_CUES) };
+}
+
+function buildReport(exerciseType: string, clips: SymmetryClip[], repTempos: SideRepTempo[]): SymmetryReport | null {
+  const readings = clips.flatMap(clip => clip.rangeOfMotion);
+  const labels = [...new Set(readings.filter(reading => reading.side !== 'both').map(reading => reading.label))];
+  const rangeOfMotion = labels.map(label => {
+    const average = (side: Side) => {
+      const degrees = readings.filter(reading => reading.label === label && reading.side === side).map(reading => reading.degrees);
+      return degrees.length > 0 ? Math.round(mean(degrees)) : null;
+    };
+    const leftDegrees = average('left');
+    const rightDegrees = average('right');
+    return {
+      label,
+      leftDegrees,
+      rightDegrees,
+      imbalanced: leftDegrees !== null && rightDegrees !== null && Math.abs(leftDegrees - rightDegrees) > ROM_IMBALANCE_DEGREES,
+    };
+  });
+
+  const leftTempos = repTempos.filter(entry => entry.side === 'left').map(entry => entry.tempo);
+  const rightTempos = repTempos.filter(entry => entry.side === 'right').map(entry => entry.tempo);
+  const left = averageTempo(leftTempos);
+  const right = averageTempo(rightTempos);
+  const tempo = {
+    left,
+    right,
+    leftReps: leftTempos.length,
+    rightReps: rightTempos.length,
+    imbalanced:
+      left !== null &&
+      right !== null &&
+      Math.abs(repSeconds(left) - repSeconds(right)) > Math.min(repSeconds(left), repSeconds(right)) * TEMPO_IMBALANCE_RATIO,
+  };
+
+  const leftIssues = sideIssues(clips, 'left');
+  const rightIssues = sideIssues(clips, 'right');
+  const issues = {
+    left: leftIssues,
+    right: rightIssues,
+    imbalanced: Math.abs(leftIssues.count - rightIssues.count) >= ISSUE_IMBALANCE_MIN_DIFFERENCE,
+  };
+
+  if (rangeOfMotion.length === 0 && left === null && right === null && leftIssues.count + rightIssues.count === 0) {
+    return null; // Nothing was told apart by side
+  }
+  return {
+    exerciseType,
+    rangeOfMotion,
+    tempo,
+    issues,
+    imbalanced: rangeOfMotion.some(entry => entry.imbalanced) || tempo.imbalanced || issues.imbalanced,
+  };
+}
+
+/**
+ * Compares the left and right side per exercise, in the order the exercises were first seen. Exercises with
+ * nothing measured or flagged for a particular side are left out.
+ */
+export function buildSymmetryReports(clips: SymmetryClip[], repTempos: SideRepTempo[]): SymmetryReport[] {
+  const exercises = [...new Set([...clips, ...repTempos].map(entry => entry.exerciseType))];
+  return exercises.flatMap(exerciseType => {
+    const report = buildReport(
+      exerciseType,
+      clips.filter(clip => clip.exerciseType === exerciseType),
+      repTempos.filter(entry => entry.exerciseType === exerciseType)
+    );
+    return report ? [report] : [];
+  });
+}
@@ -0,0 +1,217 @@
+import { isExerciseType, type ExerciseType } from '@/lib/exercises';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/locales';
+import type { RepEvent } from '@/lib/rep-counter';
+
+/**
+ * Durations of the phases of one rep, in seconds.
+ */
+export interface Tempo {
+  eccentricS: number; // Lowering under load (down in a squat, lowering the weight in a curl)
+  pauseS: number; // Held at the far end of the movement
+  concentricS: number; // Lifting against the load
+}
+
+/**
+ * A prescribed tempo in the usual coaching notation, e.g. 3-1-1. An X concentric means "as fast as possible".
+ */
+export interface TempoTarget extends Tempo {
+  notation: string;
+  explosiveConcentric: boolean;
+}
+
+export type TempoPhase = 'eccentric' | 'pause' | 'concentric';
+
+export interface TempoDeviation {
+  phase: TempoPhase;
+  direction: 'too-fast' | 'too-slow';
+  measuredS: number;
+  targetS: number;
+}
+
+export interface RepTempo {
+  index: number; // Rep number, matching RepEvent.index
+  tempo: Tempo;
+  deviations: TempoDeviation[];
+}
+
+export const TEMPO_PRESETS = ['3-1-1', '2-0-2', '4-1-1', '3-0-X'];
+
+// Phases within this many seconds, or this fraction of the target, count as on tempo; the rep counter's
+// phase boundaries are only accurate to a few samples
+const TEMPO_MIN_TOLERANCE_S = 0.5;
+const TEMPO_TOLERANCE_RATIO = 0.25;
+
+interface TempoProfile {
+  leavingIsEccentric: boolean; // Whether moving away from the start position lowers the load
+  farEnd: FarEnd; // Where the pause happens, for cues
+}
+
+type FarEnd = 'top' | 'bottom';
+
+/**
+ * How the rep counter's phases map onto tempo phases. Holds have no tempo.
+ */
+const TEMPO_PROFILES: Record<ExerciseType, TempoProfile | null> = {
+  Squat: { leavingIsEccentric: true, farEnd: 'bottom' },
+  'Push-up': { leavingIsEccentric: true, farEnd: 'bottom' },
+  Lunge: { leavingIsEccentric: true, farEnd: 'bottom' },
+  Plank: null,
+  'Bicep Curl': { leavingIsEccentric: false, farEnd: 'top' },
+};
+
+/**
+ * Parses tempo notation such as "3-1-1" or "3-0-X". A fourth number (the pause at the start position) is
+ * accepted but not measured, since the rep counter can't tell it apart from resting between reps.
+ */
+export function parseTempo(notation: string): TempoTarget | null {
+  const parts = notation.trim().toUpperCase().split(/\s*[-:/]\s*/);
+  if (parts.length < 3 || parts.length > 4 || !parts.every(part => /^(\d+(\.\d+)?|X)$/.test(part))) {
+    return null;
+  }
+  const [eccentric, pause, concentric] = parts;
+  if (eccentric === 'X' || pause === 'X') {
+    return null; // Only the lift itself can be explosive
+  }
+  return {
+    notation: parts.join('-'),
+    eccentricS: Number(eccentric),
+    pauseS: Number(pause),
+    concentricS: concentric === 'X' ? 0 : Number(concentric),
+    explosiveConcentric: concentric === 'X',
+  };
+}
+
+export function measureRepTempo(rep: RepEvent, exercise: ExerciseType): Tempo | null {
+  const profile = TEMPO_PROFILES[exercise];
+  if (!profile) {
+    return null;
+  }
+  const leavingS = (rep.bottomStartMs - rep.startMs) / 1000;
+  const returningS = (rep.endMs - rep.bottomEndMs) / 1000;
+  return {
+    eccentricS: profile.leavingIsEccentric ? leavingS : returningS,
+    pauseS: (rep.bottomEndMs - rep.bottomStartMs) / 1000,
+    concentricS: profile.leavingIsEccentric ? returningS : leavingS,
+  };
+}
+
+function deviation(phase: TempoPhase, measuredS: number, targetS: number): TempoDeviation | null {
+  const tolerance = Math.max(TEMPO_MIN_TOLERANCE_S, targetS * TEMPO_TOLERANCE_RATIO);
+  if (Math.abs(measuredS - targetS) <= tolerance) {
+    return null;
+  }
+  return { phase, direction: measuredS < targetS ? 'too-fast' : 'too-slow', measuredS, targetS };
+}
+
+export function compareTempo(measured: Tempo, target: TempoTarget): TempoDeviation[] {
+  const deviations = [
+    deviation('eccentric', measured.eccentricS, target.eccentricS),
+    deviation('pause', measured.pauseS, target.pauseS),
+    // An explosive lift can't be too fast
+    target.explosiveConcentric ? null : deviation('concentric', measured.concentricS, target.concentricS),
+  ];
+  return deviations.filter((entry): entry is TempoDeviation => entry !== null);
+}
+
+/**
+ * Measures each rep and compares it with the target. Empty for holds.
+ */
+export function analyzeTempo(reps: RepEvent[], exercise: string, target: TempoTarget): RepTempo[] {
+  if (!isExerciseType(exercise)) {
+    return [];
+  }
+  return reps.flatMap(rep => {
+    const tempo = measureRepTempo(rep, exercise);
+    return tempo ? [{ index: rep.index, tempo, deviations: compareTempo(tempo, target) }] : [];
+  });
+}
+
+interface TempoCueText {
+  seconds: (value: number) => string;
+  farEnd: Record<FarEnd | 'unknown', string>;
+  pauseLonger: (farEnd: string, seconds: string) => string;
+  noPause: (farEnd: string) => string;
+  pauseShorter: (farEnd: string, seconds: string) => string;
+  tooFast: Record<'eccentric' | 'concentric', (seconds: string) => string>;
+  tooSlow: Record<'eccentric' | 'concentric', (seconds: string) => string>;
+}
+
+// Shown next to the form feedback, so in the same language
+const TEMPO_CUE_TEXT: Record<Locale, TempoCueText> = {
+  en: {
+    seconds: value => `${value} ${value === 1 ? 'second' : 'seconds'}`,
+    farEnd: { top: 'at the top', bottom: 'at the bottom', unknown: 'at the far end' },
+    pauseLonger: (farEnd, seconds) => `Pause longer ${farEnd}: hold for ${seconds}.`,
+    noPause: farEnd => `Don't pause ${farEnd}: go straight back.`,
+    pauseShorter: (farEnd, seconds) => `Pausing too long ${farEnd}: hold for ${seconds}.`,
+    tooFast: {
+      eccentric: seconds => `Too fast on the way down: lower over ${seconds}.`,
+      concentric: seconds => `Too fast on the way up: lift over ${seconds}.`,
+    },
+    tooSlow: {
+      eccentric: seconds => `Too slow on the way down: lower in ${seconds}.`,
+      concentric: seconds => `Too slow on the way up: lift in ${seconds}.`,
+    },
+  },
+  es: {
+    seconds: value => `${value} ${value === 1 ? 'segundo' : 'segundos'}`,
+    farEnd: { top: 'arriba', bottom: 'abajo', unknown: 'en el extremo' },
+    pauseLonger: (farEnd, seconds) => `Pausa más ${farEnd}: mantén ${seconds}.`,
+    noPause: farEnd => `No hagas pausa ${farEnd}: vuelve directamente.`,
+    pauseShorter: (farEnd, seconds) => `Pausa demasiado larga ${farEnd}: mantén ${seconds}.`,
+    tooFast: {
+      eccentric: seconds => `Demasiado rápido al bajar: baja en ${seconds}.`,
+      concentric: seconds => `Demasiado rápido al subir: sube en ${seconds}.`,
+    },
+    tooSlow: {
+      eccentric: seconds => `Demasiado lento al bajar: baja en ${seconds}.`,
+      concentric: seconds => `Demasiado lento al subir: sube en ${seconds}.`,
+    },
+  },
+  de: {
+    seconds: value => `${value} ${value === 1 ? 'Sekunde' : 'Sekunden'}`,
+    farEnd: { top: 'oben', bottom: 'unten', unknown: 'am Umkehrpunkt' },
+    pauseLonger: (farEnd, seconds) => `Pausiere ${farEnd} länger: halte ${seconds}.`,
+    noPause: farEnd => `Keine Pause ${farEnd}: geh direkt zurück.`,
+    pauseShorter: (farEnd, seconds) => `Pause ${farEnd} zu lang: halte ${seconds}.`,
+    tooFast: {
+      eccentric: seconds => `Zu schnell nach unten: senke über ${seconds} ab.`,
+      concentric: seconds => `Zu schnell nach oben: hebe über ${seconds} an.`,
+    },
+    tooSlow: {
+      eccentric: seconds => `Zu langsam nach unten: senke in ${seconds} ab.`,
+      concentric: seconds => `Zu langsam nach oben: hebe in ${seconds} an.`,
+    },
+  },
+};
+
+/**
+ * A short coaching cue for a deviation, e.g. "Too fast on the way down: lower over 3 seconds."
+ */
+export function tempoCue({ phase, direction, targetS }: TempoDeviation, exercise: string, locale: Locale = DEFAULT_LOCALE): string {
+  const text = TEMPO_CUE_TEXT[locale];
+  const farEnd = text.farEnd[(isExerciseType(exercise) && TEMPO_PROFILES[exercise]?.farEnd) || 'unknown'];
+  const seconds = text.seconds(targetS);
+  if (phase === 'pause') {
+    if (direction === 'too-fast') {
+      return text.pauseLonger(farEnd, seconds);
+    }
+    return targetS === 0 ? text.noPause(farEnd) : text.pauseShorter(farEnd, seconds);
+  }
+  return direction === 'too-fast' ? text.tooFast[phase](seconds) : text.tooSlow[phase](seconds);
+}
+
+export const formatTempo = ({ eccentricS, pauseS, concentricS }: Tempo): string =>
+  [eccentricS, pauseS, concentricS].map(value => value.toFixed(1)).join('-');
+
+export function averageTempo(tempos: Tempo[]): Tempo | null {
+  if (tempos.length === 0) {
+    return null;
+  }
+  const mean = (pick: (tempo: Tempo) => number) => tempos.reduce((sum, tempo) => sum + pick(tempo), 0) / tempos.length;
+  return {
+    eccentricS: mean(tempo => tempo.eccentricS),
+    pauseS: mean(tempo => tempo.pauseS),
+    concentricS: mean(tempo => tempo.concentricS),
+  };
+}
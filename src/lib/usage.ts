@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import type { AnalysisResult } from '@/ai/errors';
+import type { ModelUsage } from '@/ai/usage';
+import type { Locale } from '@/lib/locales';
+
+export const USAGE_FLOWS = ['analyzeExerciseForm', 'checkFraming', 'recognizeExercise', 'summarizeSession', 'askCoach'] as const;
+export type UsageFlow = (typeof USAGE_FLOWS)[number];
+
+export const USAGE_FLOW_LABELS: Record<Locale, Record<UsageFlow, string>> = {
+  en: {
+    analyzeExerciseForm: 'Form analysis',
+    checkFraming: 'Framing checks',
+    recognizeExercise: 'Exercise recognition',
+    summarizeSession: 'Session reports',
+    askCoach: 'Coach chat',
+  },
+  es: {
+    analyzeExerciseForm: 'Análisis de la técnica',
+    checkFraming: 'Comprobaciones de encuadre',
+    recognizeExercise: 'Reconocimiento de ejercicios',
+    summarizeSession: 'Informes de sesión',
+    askCoach: 'Chat con el entrenador',
+  },
+  de: {
+    analyzeExerciseForm: 'Technikanalyse',
+    checkFraming: 'Bildausschnitt-Prüfungen',
+    recognizeExercise: 'Übungserkennung',
+    summarizeSession: 'Sitzungsberichte',
+    askCoach: 'Coach-Chat',
+  },
+};
+
+// One model attempt made from this browser; what the ledger stores and the export lists
+const UsageRecordSchema = z.object({
+  timestampMs: z.number(),
+  userId: z.string(),
+  sessionId: z.string().nullable(), // Null for calls before the first session, like the camera setup check
+  flow: z.enum(USAGE_FLOWS),
+  model: z.string(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  latencyMs: z.number(),
+  costUsd: z.number().nullable(), // Null when the model has no known price
+  failed: z.boolean().default(false), // Failed attempts report no tokens; records saved before they were kept have none
+});
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
+export const MAX_USAGE_RECORDS = 5000; // Oldest calls are dropped beyond this; about 10 half-hour sessions
+
+export function toUsageRecord(
+  usage: ModelUsage,
+  flow: UsageFlow,
+  userId: string,
+  sessionId: string | null,
+  timestampMs = Date.now()
+): UsageRecord {
+  return { timestampMs, userId, sessionId, flow, ...usage };
+}
+
+/**
+ * Every model attempt behind a flow's outcome, whether it succeeded or failed.
+ */
+export const outcomeUsage = (outcome: AnalysisResult<{ usage: ModelUsage[] }>): ModelUsage[] =>
+  outcome.ok ? outcome.result.usage : outcome.error.usage ?? [];
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+  costUsd: number; // Of the priced calls only
+  unpricedCalls: number;
+}
+
+export function totalUsage(records: UsageRecord[]): UsageTotals {
+  const calls = records.length;
+  return {
+    calls,
+    failedCalls: records.filter(record => record.failed).length,
+    inputTokens: records.reduce((total, record) => total + record.inputTokens, 0),
+    outputTokens: records.reduce((total, record) => total + record.outputTokens, 0),
+    averageLatencyMs: calls > 0 ? Math.round(records.reduce((total, record) => total + record.latencyMs, 0) / calls) : 0,
+    costUsd: records.reduce((total, record) => total + (record.costUsd ?? 0), 0),
+    unpricedCalls: records.filter(record => record.costUsd === null).length,
+  };
+}
+
+type UsageRollupKey = 'userId' | 'sessionId' | 'flow' | 'model';
+
+export interface UsageRollup<K extends UsageRollupKey = UsageRollupKey> extends UsageTotals {
+  key: UsageRecord[K]; // e.g. a UsageFlow when rolled up by flow
+  firstMs: number;
+  lastMs: number;
+}
+
+/**
+ * Totals per user, session, flow or model, in order of their first call.
+ */
+export function rollUpUsage<K extends UsageRollupKey>(records: UsageRecord[], by: K): UsageRollup<K>[] {
+  const groups = new Map<UsageRecord[K], UsageRecord[]>();
+  for (const record of records) {
+    const group = groups.get(record[by]);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(record[by], [record]);
+    }
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      firstMs: Math.min(...group.map(record => record.timestampMs)),
+      lastMs: Math.max(...group.map(record => record.timestampMs)),
+      ...totalUsage(group),
+    }))
+    .sort((a, b) => a.firstMs - b.firstMs);
+}
+
+/**
+ * Everything recorded in this browser with its rollups, for finance. Costs are estimates from list prices.
+ */
+export function buildUsageExport(records: UsageRecord[], exportedAtMs = Date.now()) {
+  return {
+    exportedAt: new Date(exportedAtMs).toISOString(),
+    currency: 'USD',
+    note:
+      'Costs are estimated from list prices per token; calls with a null cost used a model without a known price. ' +
+      'Failed calls report no tokens, although the provider may still bill some of them.',
+    totals: totalUsage(records),
+    byUser: rollUpUsage(records, 'userId'),
+    bySession: rollUpUsage(records, 'sessionId'),
+    byFlow: rollUpUsage(records, 'flow'),
+    byModel: rollUpUsage(records, 'model'),
+    records,
+  };
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
+const USAGE_STORAGE_KEY = 'gymsight.usage';
+const USAGE_USER_STORAGE_KEY = 'gymsight.usage-user';
+
+/**
+ * The calls recorded in this browser, oldest first; none if there are none or they no longer validate.
+ */
+export function loadUsageRecords(): UsageRecord[] {
+  try {
+    const saved = window.localStorage.getItem(USAGE_STORAGE_KEY);
+    const parsed = saved ? z.array(UsageRecordSchema).safeParse(JSON.parse(saved)) : null;
+    return parsed?.success ? parsed.data : [];
+  } catch {
+    return []; // Unreadable JSON, or storage is blocked
+  }
+}
+
+export function saveUsageRecords(records: UsageRecord[]): void {
+  try {
+    window.localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records.slice(-MAX_USAGE_RECORDS)));
+  } catch (err) {
+    console.warn('Could not save model usage:', err); // Storage full or blocked; usage is still shown this visit
+  }
+}
+
+/**
+ * An anonymous id for the user of this browser, created on first use, so exports from several devices can be
+ * told apart and combined.
+ */
+export function loadUsageUserId(): string {
+  try {
+    const saved = window.localStorage.getItem(USAGE_USER_STORAGE_KEY);
+    if (saved) {
+      return saved;
+    }
+    const created = crypto.randomUUID();
+    window.localStorage.setItem(USAGE_USER_STORAGE_KEY, created);
+    return created;
+  } catch {
+    return 'anonymous'; // Storage is blocked
+  }
+}
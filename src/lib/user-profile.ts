@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import type { Locale } from '@/lib/locales';
+
+export const EXPERIENCE_LEVELS = ['beginner', 'intermediate', 'advanced', 'competitive'] as const;
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number];
+
+export const TRAINING_GOALS = ['strength', 'muscle', 'endurance', 'mobility', 'weight-loss', 'rehab'] as const;
+export type TrainingGoal = (typeof TRAINING_GOALS)[number];
+
+export const EXPERIENCE_LEVEL_LABELS: Record<Locale, Record<ExperienceLevel, string>> = {
+  en: {
+    beginner: 'Beginner (less than 6 months of training)',
+    intermediate: 'Intermediate (6 months to 2 years)',
+    advanced: 'Advanced (2+ years of consistent training)',
+    competitive: 'Competitive athlete',
+  },
+  es: {
+    beginner: 'Principiante (menos de 6 meses entrenando)',
+    intermediate: 'Intermedio (de 6 meses a 2 años)',
+    advanced: 'Avanzado (más de 2 años entrenando con constancia)',
+    competitive: 'Deportista de competición',
+  },
+  de: {
+    beginner: 'Einsteiger (weniger als 6 Monate Training)',
+    intermediate: 'Fortgeschritten (6 Monate bis 2 Jahre)',
+    advanced: 'Erfahren (über 2 Jahre regelmäßiges Training)',
+    competitive: 'Wettkampfsportler',
+  },
+};
+
+export const TRAINING_GOAL_LABELS: Record<Locale, Record<TrainingGoal, string>> = {
+  en: {
+    strength: 'Build strength',
+    muscle: 'Build muscle',
+    endurance: 'Improve endurance',
+    mobility: 'Improve mobility',
+    'weight-loss': 'Lose weight',
+    rehab: 'Recover from an injury',
+  },
+  es: {
+    strength: 'Ganar fuerza',
+    muscle: 'Ganar músculo',
+    endurance: 'Mejorar la resistencia',
+    mobility: 'Mejorar la movilidad',
+    'weight-loss': 'Perder peso',
+    rehab: 'Recuperarme de una lesión',
+  },
+  de: {
+    strength: 'Kraft aufbauen',
+    muscle: 'Muskeln aufbauen',
+    endurance: 'Ausdauer verbessern',
+    mobility: 'Beweglichkeit verbessern',
+    'weight-loss': 'Abnehmen',
+    rehab: 'Von einer Verletzung erholen',
+  },
+};
+
+const MAX_NOTE_LENGTH = 500;
+
+// Shared by the profile form and the analysis flow, which validates the profile the browser sends.
+export const UserProfileSchema = z.object({
+  experienceLevel: z.enum(EXPERIENCE_LEVELS).optional(),
+  injuries: z
+    .string()
+    .trim()
+    .max(MAX_NOTE_LENGTH, `Keep this under ${MAX_NOTE_LENGTH} characters.`)
+    .describe('Known injuries or limitations, in the user\'s words.'),
+  mobilityRestrictions: z
+    .string()
+    .trim()
+    .max(MAX_NOTE_LENGTH, `Keep this under ${MAX_NOTE_LENGTH} characters.`)
+    .describe('Movements or ranges of motion the user cannot do comfortably.'),
+  goals: z.array(z.enum(TRAINING_GOALS)),
+});
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+export const EMPTY_USER_PROFILE: UserProfile = {
+  experienceLevel: undefined,
+  injuries: '',
+  mobilityRestrictions: '',
+  goals: [],
+};
+
+export const isProfileEmpty = (profile: UserProfile): boolean =>
+  !profile.experienceLevel && !profile.injuries && !profile.mobilityRestrictions && profile.goals.length === 0;
+
+const PROFILE_STORAGE_KEY = 'gymsight.profile';
+
+/**
+ * The profile saved in this browser, or an empty one if there is none or it no longer validates.
+ */
+export function loadUserProfile(): UserProfile {
+  try {
+    const saved = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    const parsed = saved ? UserProfileSchema.safeParse(JSON.parse(saved)) : null;
+    return parsed?.success ? parsed.data : EMPTY_USER_PROFILE;
+  } catch {
+    return EMPTY_USER_PROFILE; // Unreadable JSON, or storage is blocked
+  }
+}
+
+/**
+ * Saves the profile in this browser; false if storage is full or blocked, in which case it lasts this visit only.
+ */
+export function saveUserProfile(profile: UserProfile): boolean {
+  try {
+    window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    return true;
+  } catch (err) {
+    console.warn('Could not save the profile:', err);
+    return false;
+  }
+}
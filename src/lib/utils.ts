@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Reads a numeric option from an environment value, falling back to `fallback` when it is unset, empty or not a
+ * finite non-negative number.
+ */
+export function parseNonNegativeNumber(value: string | undefined, fallback: number): number {
+  const parsed = value?.trim() ? Number(value) : NaN
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}